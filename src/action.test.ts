@@ -1,4 +1,7 @@
 import { describe, expect, it } from "bun:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
 import {
   StartWorkspaceAction,
   UserFacingError,
@@ -7,6 +10,17 @@ import {
 } from "./action";
 import dedent from "dedent";
 import { unwrap } from "./utils";
+import type { ActionResult } from "./outputs";
+import type { IssueCommentApi } from "./status-comment";
+import {
+  CoderApiError,
+  type CoderClient,
+  type ProvisionerJobLog,
+  type ProvisionerJobStatus,
+  type TemplateVersionParameter,
+  type Workspace,
+  type WorkspaceTransition,
+} from "./coder";
 
 class TestLogger implements Logger {
   logs: string[] = [];
@@ -29,13 +43,47 @@ interface ActionParams {
   logger?: Logger;
 }
 
+/**
+ * The status comment calls of the actions created by `newAction`. Tests
+ * replace the methods to mock GitHub.
+ */
+const commentApis = new WeakMap<StartWorkspaceAction, IssueCommentApi>();
+
+const commentApi = (action: StartWorkspaceAction): IssueCommentApi =>
+  unwrap(commentApis.get(action));
+
+/**
+ * Wraps text in the markers of the action's section of the status comment,
+ * including the marker that identifies the workspace unless it is null
+ */
+const section = (
+  text: string,
+  workspace: string | null = "hugo/workspace-name"
+) =>
+  `<!-- coder-workspace-status -->\n${
+    workspace === null ? "" : `<!-- coder-workspace: ${workspace} -->\n`
+  }${text}\n<!-- /coder-workspace-status -->`;
+
 const newAction = (params?: ActionParams) => {
-  const action = new StartWorkspaceAction(params?.logger ?? new TestLogger(), {
+  const comments: IssueCommentApi = {
+    createComment: async () => {
+      throw new Error("createComment is not mocked");
+    },
+    updateComment: async () => {
+      throw new Error("updateComment is not mocked");
+    },
+    getCommentBody: async () => {
+      throw new Error("getCommentBody is not mocked");
+    },
+    findComment: async () => undefined,
+  };
+  const input: ActionInput = {
     githubUsername: "github-user",
     coderUsername: undefined,
     coderUrl: "https://example.com",
     coderToken: "coder-token",
     workspaceName: "workspace-name",
+    workspaceNameTemplate: "issue-{number}",
     githubStatusCommentId: 123,
     githubRepoOwner: "github-repo-owner",
     githubRepoName: "github-repo-name",
@@ -48,9 +96,43 @@ const newAction = (params?: ActionParams) => {
         key3: value3
       `.trim(),
     githubUrl: "https://github.com",
+    buildTimeoutSeconds: 600,
+    buildLogLines: 25,
+    requestTimeoutSeconds: 30,
+    requestMaxAttempts: 4,
+    mode: "start",
+    waitForBuild: true,
+    ifExists: "fail",
+    requiredPermission: "none",
+    userMappingFallback: "github-id",
+    dryRun: false,
+    waitForAgents: false,
+    agentStartError: "fail",
+    agentTimeoutSeconds: 600,
+    githubIssueNumber: 42,
+    githubCommentId: undefined,
+    githubActor: "github-actor",
+    placeholderMaxLength: 4000,
+    githubOutputFile: undefined,
+    githubStepSummaryFile: undefined,
+    commentTemplate: "{{ status }}\n\nWorkspace: {{ workspace_url }}",
     ...(params?.input ?? {}),
-  });
-
+  };
+  const action = new StartWorkspaceAction(
+    params?.logger ?? new TestLogger(),
+    input,
+    {
+      // Look the methods up on every call, so tests can replace them
+      commentApi: {
+        createComment: (body) => comments.createComment(body),
+        updateComment: (commentId, body) =>
+          comments.updateComment(commentId, body),
+        getCommentBody: (commentId) => comments.getCommentBody(commentId),
+        findComment: (text) => comments.findComment(text),
+      },
+    }
+  );
+  commentApis.set(action, comments);
   return action;
 };
 
@@ -105,6 +187,925 @@ describe("StartWorkspaceAction", () => {
     });
   });
 
+  it("parseParameters with typed values", async () => {
+    const action = newAction();
+    const parameters = dedent`
+      cpu: 4
+      gpu: false
+      repos:
+        - coder/coder
+        - coder/docs
+    `.trim();
+    expect(action.parseParameters(parameters)).toEqual({
+      cpu: 4,
+      gpu: false,
+      repos: ["coder/coder", "coder/docs"],
+    });
+    expect(() => action.parseParameters("key:")).toThrow();
+  });
+
+  it("fillParameterPlaceholders", async () => {
+    const action = newAction({ input: { githubCommentId: 7 } });
+    const fetched: string[] = [];
+    action.githubGetIssue = async (args) => {
+      fetched.push(`issue ${args.issueNumber}`);
+      return {
+        title: "Title",
+        body: "Body with 'quotes'\nand newlines",
+        url: "https://github.com/owner/repo/issues/42",
+        isPullRequest: false,
+      };
+    };
+    action.githubGetIssueCommentBody = async (args) => {
+      fetched.push(`comment ${args.commentId}`);
+      return "@coder please";
+    };
+
+    expect(
+      await action.fillParameterPlaceholders({
+        prompt: "{{ issue.title }}: {{ issue.body }} ({{ issue.url }})",
+        comment: "{{ comment.body }}",
+        who: "{{ actor.login }} in {{ repo.full_name }}#{{ issue.number }}",
+      })
+    ).toEqual({
+      prompt:
+        "Title: Body with 'quotes'\nand newlines (https://github.com/owner/repo/issues/42)",
+      comment: "@coder please",
+      who: "github-actor in github-repo-owner/github-repo-name#42",
+    });
+    expect(fetched).toEqual(["issue 42", "comment 7"]);
+
+    fetched.length = 0;
+    expect(await action.fillParameterPlaceholders({ key: "value" })).toEqual({
+      key: "value",
+    });
+    expect(fetched).toEqual([]);
+
+    await expect(
+      action.fillParameterPlaceholders({ key: "{{ issue.titel }}" })
+    ).rejects.toThrow(
+      new UserFacingError(
+        "Unknown placeholders in parameters: {{ issue.titel }}. Available placeholders: {{ issue.number }}, {{ issue.title }}, {{ issue.body }}, {{ issue.url }}, {{ comment.body }}, {{ pull_request.head_repo_clone_url }}, {{ pull_request.head_repo_full_name }}, {{ pull_request.head_ref }}, {{ pull_request.head_sha }}, {{ pull_request.base_ref }}, {{ repo.full_name }}, {{ actor.login }}"
+      )
+    );
+  });
+
+  it("fillParameterPlaceholders for pull requests", async () => {
+    const action = newAction();
+    let isPullRequest = true;
+    action.githubGetIssue = async () => ({
+      title: "Title",
+      body: "",
+      url: "https://github.com/owner/repo/pull/42",
+      isPullRequest,
+    });
+    action.githubGetPullRequest = async () => ({
+      headRepoCloneUrl: "https://github.com/fork/repo.git",
+      headRepoFullName: "fork/repo",
+      headRef: "feature",
+      headSha: "abc123",
+      baseRef: "main",
+    });
+    const parameters = {
+      repo: "{{ pull_request.head_repo_clone_url }}",
+      branch: "{{ pull_request.head_ref }}",
+      base: "{{ pull_request.base_ref }}",
+    };
+
+    expect(await action.fillParameterPlaceholders(parameters)).toEqual({
+      repo: "https://github.com/fork/repo.git",
+      branch: "feature",
+      base: "main",
+    });
+
+    isPullRequest = false;
+    await expect(action.fillParameterPlaceholders(parameters)).rejects.toThrow(
+      new UserFacingError(
+        "The {{ pull_request.* }} placeholders can only be used when #42 is a pull request"
+      )
+    );
+  });
+
+  describe("coderStartWorkspace", () => {
+    const mockCoder = (
+      action: StartWorkspaceAction,
+      job: { status: ProvisionerJobStatus; error?: string },
+      logs: ProvisionerJobLog[] = [],
+      existing?: Workspace,
+      parameterDefinitions: TemplateVersionParameter[] = []
+    ) => {
+      const calls = {
+        created: false,
+        createArgs: undefined as
+          | Parameters<CoderClient["createWorkspace"]>[0]
+          | undefined,
+        builds: [] as Parameters<CoderClient["createWorkspaceBuild"]>[1][],
+      };
+      const coder = action["coder"];
+      coder.getUserID = async () => "user-id";
+      coder.getTemplatesByName = async (name) => [
+        {
+          id: "template-id",
+          name,
+          active_version_id: "template-version-id",
+          organization_id: "org-id",
+          organization_name: "coder",
+        },
+      ];
+      coder.getUserOrganizations = async () => [
+        { id: "org-id", name: "coder" },
+      ];
+      coder.getTemplateVersionRichParameters = async () => parameterDefinitions;
+      coder.getWorkspaceBuildParameters = async () => ({});
+      coder.getWorkspaceByOwnerAndName = async () => existing;
+      coder.createWorkspace = async (args) => {
+        calls.created = true;
+        calls.createArgs = args;
+        return "workspace-id";
+      };
+      coder.createWorkspaceBuild = async (_workspaceId, args) => {
+        calls.builds.push(args);
+        return {
+          id: "build-id",
+          build_number: 2,
+          transition: args.transition,
+          job: { status: "pending" },
+        };
+      };
+      coder.followLatestBuildLogs = async (_workspaceId, onLog) => {
+        for (const log of logs) {
+          await onLog(log);
+        }
+        return { id: "build-id", build_number: 1, transition: "start", job };
+      };
+      return calls;
+    };
+    const newWorkspace = (
+      transition: WorkspaceTransition,
+      status: ProvisionerJobStatus
+    ): Workspace => ({
+      id: "existing-id",
+      name: "workspace-name",
+      latest_build: {
+        id: "existing-build-id",
+        build_number: 1,
+        transition,
+        job: { status },
+      },
+    });
+    const newLog = (id: number, stage: string, output: string) => ({
+      id,
+      created_at: "2025-01-01T00:00:00Z",
+      log_level: "info",
+      stage,
+      output,
+    });
+    const startArgs = {
+      coderUsername: "hugo",
+      templateName: "ubuntu",
+      workspaceName: "workspace-name",
+      parameters: {},
+    };
+
+    it("resolves once the build succeeds", async () => {
+      const logger = new TestLogger();
+      const action = newAction({ logger });
+      mockCoder(action, { status: "succeeded" });
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("created");
+      expect(logger.logs).toContain("Workspace start build succeeded");
+    });
+
+    it("reports a failed build", async () => {
+      const action = newAction();
+      mockCoder(action, { status: "failed", error: "terraform apply failed" });
+
+      await expect(action.coderStartWorkspace(startArgs)).rejects.toThrow(
+        new UserFacingError("Workspace build failed: terraform apply failed")
+      );
+    });
+
+    it("keeps following the build if a progress update fails", async () => {
+      const logger = new TestLogger();
+      const action = newAction({ logger });
+      action["logCommentIntervalMs"] = 0;
+      commentApi(action).getCommentBody = async () => "Starting";
+      commentApi(action).updateComment = async () => {};
+      await action.initStatusComment();
+      commentApi(action).updateComment = async () => {
+        throw new Error("You have exceeded a secondary rate limit");
+      };
+      mockCoder(action, { status: "succeeded" }, [
+        newLog(1, "Starting workspace", "apply line"),
+      ]);
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("created");
+      expect(logger.warns).toContain(
+        "Failed to update the status comment: Error: You have exceeded a secondary rate limit"
+      );
+    });
+
+    it("streams logs to the action log and the status comment", async () => {
+      const logger = new TestLogger();
+      const action = newAction({ logger, input: { buildLogLines: 2 } });
+      action["logCommentIntervalMs"] = 0;
+      const comments: string[] = [];
+      commentApi(action).getCommentBody = async () => "Starting";
+      commentApi(action).updateComment = async (_commentId, body) => {
+        comments.push(body);
+      };
+      await action.initStatusComment();
+      mockCoder(action, { status: "failed", error: "exit status 1" }, [
+        newLog(1, "Planning infrastructure", "plan line"),
+        newLog(2, "Starting workspace", "apply line 1"),
+        newLog(3, "Starting workspace", "apply line 2"),
+      ]);
+
+      const error = await action.coderStartWorkspace(startArgs).catch((e) => e);
+      expect(logger.logs).toContain("==> Planning infrastructure");
+      expect(logger.logs).toContain("apply line 2");
+      expect(comments).toHaveLength(4);
+      expect(comments[3]).toEqual(
+        `Starting\n\n${section(
+          "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).\n\n<details><summary>Build logs (stage: Starting workspace)</summary>\n\n```\napply line 1\napply line 2\n```\n\n</details>",
+          null
+        )}`
+      );
+      expect(error).toBeInstanceOf(UserFacingError);
+      expect(error.message).toStartWith(
+        "Workspace build failed: exit status 1\n\n<details>"
+      );
+    });
+
+    it("fails if the workspace exists and if-exists is fail", async () => {
+      const action = newAction();
+      const calls = mockCoder(
+        action,
+        { status: "succeeded" },
+        [],
+        newWorkspace("start", "succeeded")
+      );
+
+      await expect(action.coderStartWorkspace(startArgs)).rejects.toThrow(
+        new UserFacingError(
+          "Workspace workspace-name already exists for Coder user hugo. Set the `if-exists` input to `start`, `update` or `recreate` to reuse it."
+        )
+      );
+      expect(calls.created).toBe(false);
+      expect(calls.builds).toEqual([]);
+    });
+
+    it("follows a start build that another run is already running", async () => {
+      const action = newAction();
+      const calls = mockCoder(
+        action,
+        { status: "succeeded" },
+        [],
+        newWorkspace("start", "running")
+      );
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("build-joined");
+      expect(calls.created).toBe(false);
+      expect(calls.builds).toEqual([]);
+    });
+
+    it("follows the build of a run that created the workspace first", async () => {
+      const action = newAction();
+      const calls = mockCoder(action, { status: "succeeded" });
+      const conflict = new CoderApiError("Failed to create workspace", {
+        status: 409,
+        endpoint: "/api/v2/users/user-id/workspaces",
+        apiMessage: "Workspace already exists.",
+      });
+      let lookups = 0;
+      action["coder"].getWorkspaceByOwnerAndName = async () =>
+        lookups++ === 0 ? undefined : newWorkspace("start", "running");
+      action["coder"].createWorkspace = async () => {
+        throw conflict;
+      };
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("build-joined");
+      expect(action["result"].workspaceId).toBe("existing-id");
+      expect(calls.builds).toEqual([]);
+
+      // Without a start in progress, the conflict is reported
+      const stopped = newAction();
+      mockCoder(stopped, { status: "succeeded" });
+      lookups = 0;
+      stopped["coder"].getWorkspaceByOwnerAndName = async () =>
+        lookups++ === 0 ? undefined : newWorkspace("stop", "succeeded");
+      stopped["coder"].createWorkspace = async () => {
+        throw conflict;
+      };
+      await expect(stopped.coderStartWorkspace(startArgs)).rejects.toBe(
+        conflict
+      );
+    });
+
+    it("starts a stopped workspace", async () => {
+      const action = newAction({ input: { ifExists: "start" } });
+      const calls = mockCoder(
+        action,
+        { status: "succeeded" },
+        [],
+        newWorkspace("stop", "succeeded")
+      );
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("started");
+      expect(calls.created).toBe(false);
+      expect(calls.builds).toEqual([{ transition: "start" }]);
+    });
+
+    it("reuses a running workspace", async () => {
+      const action = newAction({ input: { ifExists: "start" } });
+      const calls = mockCoder(
+        action,
+        { status: "succeeded" },
+        [],
+        newWorkspace("start", "succeeded")
+      );
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe(
+        "already-running"
+      );
+      expect(calls.builds).toEqual([]);
+    });
+
+    it("updates a running workspace to the active template version", async () => {
+      const action = newAction({ input: { ifExists: "update" } });
+      const calls = mockCoder(
+        action,
+        { status: "succeeded" },
+        [],
+        newWorkspace("start", "succeeded")
+      );
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("updated");
+      expect(calls.created).toBe(false);
+      expect(calls.builds).toEqual([
+        { transition: "stop" },
+        {
+          transition: "start",
+          templateVersionID: "template-version-id",
+          parameters: {},
+        },
+      ]);
+    });
+
+    it("recreates an existing workspace", async () => {
+      const action = newAction({ input: { ifExists: "recreate" } });
+      const calls = mockCoder(
+        action,
+        { status: "succeeded" },
+        [],
+        newWorkspace("stop", "succeeded")
+      );
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("recreated");
+      expect(calls.builds).toEqual([{ transition: "delete" }]);
+      expect(calls.created).toBe(true);
+    });
+
+    it("validates parameters before creating anything", async () => {
+      const action = newAction();
+      const calls = mockCoder(action, { status: "succeeded" }, [], undefined, [
+        {
+          name: "region",
+          type: "string",
+          mutable: true,
+          default_value: "",
+          required: true,
+          options: [],
+        },
+      ]);
+
+      await expect(
+        action.coderStartWorkspace({
+          ...startArgs,
+          parameters: { regon: "eu" },
+        })
+      ).rejects.toThrow(
+        new UserFacingError(
+          'Invalid workspace parameters for template ubuntu:\n- Unknown parameter "regon". Did you mean "region"?\n- Missing required parameter "region"'
+        )
+      );
+      expect(calls.created).toBe(false);
+    });
+
+    it("reports templates in several organizations", async () => {
+      const action = newAction();
+      const calls = mockCoder(action, { status: "succeeded" });
+      const template = (organization: string) => ({
+        id: `${organization}-template-id`,
+        name: "ubuntu",
+        active_version_id: "template-version-id",
+        organization_id: `${organization}-id`,
+        organization_name: organization,
+      });
+      action["coder"].getTemplatesByName = async () => [
+        template("coder"),
+        template("acme"),
+      ];
+
+      await expect(action.coderStartWorkspace(startArgs)).rejects.toThrow(
+        "Template ubuntu exists in several Coder organizations: coder, acme. Please set the `coder-organization` input to choose one."
+      );
+      expect(calls.created).toBe(false);
+    });
+
+    it("looks up the template in the configured organization", async () => {
+      const action = newAction({ input: { coderOrganization: "acme" } });
+      mockCoder(action, { status: "succeeded" });
+      const lookups: string[] = [];
+      action["coder"].getTemplateByOrganizationAndName = async (
+        organization,
+        name
+      ) => {
+        lookups.push(`${organization}/${name}`);
+        return organization === "acme"
+          ? {
+              id: "template-id",
+              name,
+              active_version_id: "template-version-id",
+              organization_id: "org-id",
+            }
+          : undefined;
+      };
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("created");
+      expect(lookups).toEqual(["acme/ubuntu"]);
+
+      const other = newAction({ input: { coderOrganization: "other" } });
+      mockCoder(other, { status: "succeeded" });
+      other["coder"].getTemplateByOrganizationAndName =
+        action["coder"].getTemplateByOrganizationAndName;
+      await expect(other.coderStartWorkspace(startArgs)).rejects.toThrow(
+        "Template ubuntu not found in Coder organization other"
+      );
+    });
+
+    it("requires the user to be a member of the template's organization", async () => {
+      const action = newAction();
+      const calls = mockCoder(action, { status: "succeeded" });
+      action["coder"].getUserOrganizations = async () => [
+        { id: "other-org-id", name: "other" },
+      ];
+
+      await expect(action.coderStartWorkspace(startArgs)).rejects.toThrow(
+        "Coder user hugo is not a member of the Coder organization coder, which template ubuntu belongs to. Please add them to the organization and try again."
+      );
+      expect(calls.created).toBe(false);
+    });
+
+    it("builds from a pinned template version and preset", async () => {
+      const action = newAction({
+        input: { templateVersion: "v2", templatePreset: "large" },
+      });
+      const calls = mockCoder(action, { status: "succeeded" }, [], undefined, [
+        {
+          name: "cpu",
+          type: "number",
+          mutable: true,
+          default_value: "",
+          required: false,
+          options: [],
+        },
+        {
+          name: "region",
+          type: "string",
+          mutable: true,
+          default_value: "",
+          required: false,
+          options: [],
+        },
+      ]);
+      action["coder"].getTemplateVersionByName = async (_templateId, name) =>
+        name === "v2" ? { id: "v2-id", name } : undefined;
+      action["coder"].getTemplateVersionPresets = async () => [
+        {
+          id: "small-id",
+          name: "small",
+          parameters: { cpu: "2", region: "us" },
+        },
+        {
+          id: "large-id",
+          name: "large",
+          parameters: { cpu: "8", region: "us" },
+        },
+      ];
+
+      expect(
+        await action.coderStartWorkspace({
+          ...startArgs,
+          parameters: { region: "eu" },
+        })
+      ).toBe("created");
+      expect(calls.createArgs).toEqual({
+        ownerID: "user-id",
+        templateID: "template-id",
+        templateVersionID: "v2-id",
+        presetID: "large-id",
+        workspaceName: "workspace-name",
+        parameters: { cpu: "8", region: "eu" },
+      });
+    });
+
+    it("sends lifecycle settings and reports the ones Coder applied", async () => {
+      const logger = new TestLogger();
+      const action = newAction({
+        logger,
+        input: { ttlMs: 4 * 60 * 60 * 1000, automaticUpdates: "always" },
+      });
+      const calls = mockCoder(action, { status: "succeeded" });
+      action["coder"].getWorkspace = async () => ({
+        ...newWorkspace("start", "succeeded"),
+        ttl_ms: 60 * 60 * 1000,
+        automatic_updates: "always",
+      });
+
+      expect(await action.coderStartWorkspace(startArgs)).toBe("created");
+      expect(calls.createArgs?.ttlMs).toBe(4 * 60 * 60 * 1000);
+      expect(calls.createArgs?.automaticUpdates).toBe("always");
+
+      await action.coderCheckLifecycle("workspace-id", true);
+      expect(action["lifecycleDescription"]).toBe(
+        "stops after 1h, no autostart, automatic updates: always"
+      );
+      expect(logger.warns).toEqual([
+        "Coder did not apply ttl 4h. The template may not allow users to change these settings.",
+      ]);
+    });
+
+    it("waits for agents and collects links to their apps", async () => {
+      const action = newAction({ input: { waitForAgents: true } });
+      action["coder"].waitForAgents = async () => {
+        const workspace = newWorkspace("start", "succeeded");
+        return {
+          ...workspace,
+          latest_build: {
+            ...workspace.latest_build,
+            resources: [
+              {
+                agents: [
+                  {
+                    id: "agent-id",
+                    name: "main",
+                    lifecycle_state: "ready",
+                    display_apps: ["web_terminal"],
+                    apps: [
+                      {
+                        id: "app-id",
+                        slug: "claude-code",
+                        display_name: "Claude Code",
+                        health: "healthy",
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        };
+      };
+
+      await action.coderWaitForAgents({
+        workspaceId: "workspace-id",
+        coderUsername: "hugo",
+        workspaceName: "workspace-name",
+      });
+      expect(action["result"].appLinks).toEqual([
+        {
+          agent: "main",
+          kind: "terminal",
+          name: "Terminal",
+          url: "https://example.com/@hugo/workspace-name.main/terminal",
+        },
+        {
+          agent: "main",
+          kind: "ai-agent",
+          name: "Claude Code",
+          url: "https://example.com/@hugo/workspace-name.main/apps/claude-code/",
+          health: "healthy",
+        },
+      ]);
+      expect(action["completedSteps"].has("agents")).toBe(true);
+    });
+
+    it("fails or warns when an agent startup script fails", async () => {
+      const mockAgentState = (action: StartWorkspaceAction, state: string) => {
+        action["coder"].waitForAgents = async () => {
+          const workspace = newWorkspace("start", "succeeded");
+          return {
+            ...workspace,
+            latest_build: {
+              ...workspace.latest_build,
+              resources: [
+                {
+                  agents: [
+                    { id: "agent-id", name: "main", lifecycle_state: state },
+                  ],
+                },
+              ],
+            },
+          };
+        };
+      };
+      const args = {
+        workspaceId: "workspace-id",
+        coderUsername: "hugo",
+        workspaceName: "workspace-name",
+      };
+
+      const failing = newAction({ input: { waitForAgents: true } });
+      mockAgentState(failing, "start_error");
+      await expect(failing.coderWaitForAgents(args)).rejects.toThrow(
+        "Workspace agents failed to start: main (startup script failed)"
+      );
+
+      const starting = newAction({ input: { waitForAgents: true } });
+      mockAgentState(starting, "starting");
+      await expect(starting.coderWaitForAgents(args)).rejects.toThrow(
+        "Workspace agents did not finish starting within 600 seconds: main (starting)"
+      );
+
+      const logger = new TestLogger();
+      const warning = newAction({
+        logger,
+        input: { waitForAgents: true, agentStartError: "warn" },
+      });
+      mockAgentState(warning, "start_timeout");
+      await warning.coderWaitForAgents(args);
+      expect(logger.warns).toEqual([
+        "Workspace agents failed to start: main (startup script timed out)",
+      ]);
+      expect(warning["result"].appLinks?.map((link) => link.kind)).toEqual([
+        "vscode-desktop",
+        "terminal",
+      ]);
+    });
+
+    it("plans without changing anything in dry-run mode", async () => {
+      const action = newAction({
+        input: { dryRun: true, sensitiveParameters: "ssh_key" },
+      });
+      const calls = mockCoder(action, { status: "succeeded" }, [], undefined, [
+        {
+          name: "region",
+          type: "string",
+          mutable: true,
+          default_value: "",
+          required: false,
+          options: [],
+        },
+        {
+          name: "db_password",
+          type: "string",
+          mutable: true,
+          default_value: "",
+          required: false,
+          options: [],
+        },
+        {
+          name: "ssh_key",
+          type: "string",
+          mutable: true,
+          default_value: "",
+          required: false,
+          options: [],
+        },
+      ]);
+
+      expect(
+        await action.coderStartWorkspace({
+          ...startArgs,
+          parameters: { region: "eu", db_password: "hunter2", ssh_key: "abc" },
+        })
+      ).toBe("planned");
+      expect(calls.created).toBe(false);
+      expect(calls.builds).toEqual([]);
+      expect(action["result"].plan).toEqual({
+        owner: "hugo",
+        workspaceName: "workspace-name",
+        action: "Create a new workspace",
+        templateName: "ubuntu",
+        templateVersion: "Active version",
+        preset: undefined,
+        parameters: { region: "eu", db_password: "******", ssh_key: "******" },
+      });
+    });
+
+    it("still validates the if-exists mode in dry-run mode", async () => {
+      const action = newAction({ input: { dryRun: true } });
+      const calls = mockCoder(
+        action,
+        { status: "succeeded" },
+        [],
+        newWorkspace("start", "succeeded")
+      );
+
+      await expect(action.coderStartWorkspace(startArgs)).rejects.toThrow(
+        "Workspace workspace-name already exists for Coder user hugo."
+      );
+      expect(calls.builds).toEqual([]);
+    });
+
+    it("reports unknown presets", async () => {
+      const action = newAction({ input: { templatePreset: "huge" } });
+      mockCoder(action, { status: "succeeded" });
+      action["coder"].getTemplateVersionPresets = async () => [
+        { id: "small-id", name: "small", parameters: {} },
+      ];
+
+      await expect(action.coderStartWorkspace(startArgs)).rejects.toThrow(
+        "Preset huge not found. Available presets: small"
+      );
+    });
+
+    it("reports a build that did not finish in time", async () => {
+      const action = newAction({ input: { buildTimeoutSeconds: 5 } });
+      mockCoder(action, { status: "running" });
+
+      await expect(action.coderStartWorkspace(startArgs)).rejects.toThrow(
+        new UserFacingError(
+          "Workspace build did not finish within 5 seconds (last status: running)"
+        )
+      );
+    });
+  });
+
+  describe("coderTeardownWorkspace", () => {
+    const mockCoder = (action: StartWorkspaceAction, existing?: Workspace) => {
+      const builds: WorkspaceTransition[] = [];
+      const coder = action["coder"];
+      coder.getUserID = async () => "user-id";
+      coder.getWorkspaceByOwnerAndName = async () => existing;
+      coder.createWorkspaceBuild = async (_workspaceId, args) => {
+        builds.push(args.transition);
+        return {
+          id: "build-id",
+          build_number: 2,
+          transition: args.transition,
+          job: { status: "pending" },
+        };
+      };
+      coder.followLatestBuildLogs = async () => ({
+        id: "build-id",
+        build_number: 2,
+        transition: builds[builds.length - 1] ?? "start",
+        job: { status: "succeeded" },
+      });
+      return builds;
+    };
+    const newWorkspace = (transition: WorkspaceTransition): Workspace => ({
+      id: "existing-id",
+      name: "workspace-name",
+      latest_build: {
+        id: "existing-build-id",
+        build_number: 1,
+        transition,
+        job: { status: "succeeded" },
+      },
+    });
+    const teardownArgs = {
+      coderUsername: "hugo",
+      workspaceName: "workspace-name",
+    };
+
+    it("stops a running workspace", async () => {
+      const action = newAction({ input: { mode: "stop" } });
+      const builds = mockCoder(action, newWorkspace("start"));
+
+      expect(
+        await action.coderTeardownWorkspace({
+          ...teardownArgs,
+          transition: "stop",
+        })
+      ).toBe("stopped");
+      expect(builds).toEqual(["stop"]);
+    });
+
+    it("skips stopping a stopped workspace", async () => {
+      const action = newAction({ input: { mode: "stop" } });
+      const builds = mockCoder(action, newWorkspace("stop"));
+
+      expect(
+        await action.coderTeardownWorkspace({
+          ...teardownArgs,
+          transition: "stop",
+        })
+      ).toBe("already-stopped");
+      expect(builds).toEqual([]);
+    });
+
+    it("queues a delete build without waiting", async () => {
+      const action = newAction({
+        input: { mode: "delete", waitForBuild: false },
+      });
+      const builds = mockCoder(action, newWorkspace("stop"));
+      action["coder"].followLatestBuildLogs = async () => {
+        throw new Error("should not wait");
+      };
+
+      expect(
+        await action.coderTeardownWorkspace({
+          ...teardownArgs,
+          transition: "delete",
+        })
+      ).toBe("delete-queued");
+      expect(builds).toEqual(["delete"]);
+    });
+
+    it("reports a missing workspace", async () => {
+      const action = newAction({ input: { mode: "delete" } });
+      const builds = mockCoder(action);
+
+      expect(
+        await action.coderTeardownWorkspace({
+          ...teardownArgs,
+          transition: "delete",
+        })
+      ).toBe("not-found");
+      expect(builds).toEqual([]);
+    });
+  });
+
+  describe("resolveCoderUsername", () => {
+    const newMappingAction = (input: Partial<ActionInput>) => {
+      const action = newAction({ input: { githubUsername: "Hugo", ...input } });
+      const calls: string[] = [];
+      action.githubGetUserIdFromUsername = async () => {
+        calls.push("github-id");
+        return 123;
+      };
+      action["coder"].getCoderUsersByGitHubId = async () => {
+        calls.push("coder-by-github-id");
+        return ["hugo-by-id"];
+      };
+      action["coder"].getUserID = async (username) => {
+        calls.push(`coder-user:${username}`);
+        if (username === "ghost") {
+          throw new CoderApiError("Failed to get Coder user", {
+            status: 404,
+            endpoint: "/api/v2/users/ghost",
+          });
+        }
+        return "user-id";
+      };
+      return { action, calls };
+    };
+
+    it("maps GitHub logins without looking up the GitHub ID", async () => {
+      const { action, calls } = newMappingAction({
+        userMapping: "hugo: hugo-coder\nalice: alice-coder",
+      });
+      expect(await action.resolveCoderUsername()).toBe("hugo-coder");
+      expect(calls).toEqual(["coder-user:hugo-coder"]);
+    });
+
+    it("prefers GitHub user IDs over logins", async () => {
+      const { action } = newMappingAction({
+        userMapping: "hugo: by-login\n123: by-id",
+      });
+      expect(await action.resolveCoderUsername()).toBe("by-id");
+    });
+
+    it("reads the mapping from a file", async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "user-mapping-"));
+      const file = path.join(dir, "coder-users.yml");
+      await fs.writeFile(file, "hugo: from-file\n");
+      try {
+        const { action } = newMappingAction({ userMapping: file });
+        expect(await action.resolveCoderUsername()).toBe("from-file");
+      } finally {
+        await fs.rm(dir, { recursive: true });
+      }
+    });
+
+    it("rejects mapped users that don't exist in Coder", async () => {
+      const { action } = newMappingAction({ userMapping: "hugo: ghost" });
+      await expect(action.resolveCoderUsername()).rejects.toThrow(
+        "The `user-mapping` maps GitHub user @Hugo to Coder user ghost, which does not exist"
+      );
+    });
+
+    it("falls back to the GitHub ID lookup for unmapped users", async () => {
+      const { action, calls } = newMappingAction({
+        userMapping: "alice: alice-coder",
+      });
+      expect(await action.resolveCoderUsername()).toBe("hugo-by-id");
+      expect(calls).toEqual(["github-id", "coder-by-github-id"]);
+
+      const strict = newMappingAction({
+        userMapping: "alice: alice-coder",
+        userMappingFallback: "fail",
+      });
+      await expect(strict.action.resolveCoderUsername()).rejects.toThrow(
+        "GitHub user @Hugo is not in the `user-mapping`."
+      );
+      expect(strict.calls).toEqual([]);
+    });
+  });
+
   describe("execute", () => {
     type MockForExecuteResult = {
       workspaceStarted: boolean;
@@ -114,6 +1115,7 @@ describe("StartWorkspaceAction", () => {
           >[0]
         | undefined;
       issueComments: string[];
+      actionResult?: ActionResult;
       error?: unknown;
     };
 
@@ -121,6 +1123,7 @@ describe("StartWorkspaceAction", () => {
       coderUsernamesByGitHubId?: string[];
       initialIssueComment?: string;
       githubUserId?: number;
+      previousCommentId?: number;
     }
 
     const mockForExecute = (
@@ -135,19 +1138,29 @@ describe("StartWorkspaceAction", () => {
       action.coderStartWorkspace = async (args) => {
         result.workspaceStarted = true;
         result.startWorkspaceArgs = args;
+        return "created";
       };
       action["coder"].getCoderUsersByGitHubId = async () => {
         return params.coderUsernamesByGitHubId ?? [];
       };
-      action.githubGetIssueCommentBody = async () => {
+      const comments = commentApi(action);
+      comments.getCommentBody = async () => {
         return unwrap(result.issueComments[result.issueComments.length - 1]);
       };
-      action.githubUpdateIssueComment = async (args) => {
-        result.issueComments.push(args.comment);
+      comments.createComment = async (body) => {
+        result.issueComments.push(body);
+        return 456;
+      };
+      comments.updateComment = async (_commentId, body) => {
+        result.issueComments.push(body);
       };
+      comments.findComment = async () => params.previousCommentId;
       action.githubGetUserIdFromUsername = async () => {
         return params.githubUserId ?? 123;
       };
+      action.githubWriteResult = async (actionResult) => {
+        result.actionResult = actionResult;
+      };
 
       return result;
     };
@@ -188,7 +1201,7 @@ describe("StartWorkspaceAction", () => {
     };
 
     it("happy path", async () => {
-      await executeTest(
+      const mock = await executeTest(
         {},
         {
           coderUsernamesByGitHubId: ["hugo"],
@@ -198,8 +1211,15 @@ describe("StartWorkspaceAction", () => {
         {
           issueComments: [
             "Initial comment",
-            "Initial comment\n\nWorkspace will be available at: https://example.com/hugo/workspace-name",
-            "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\nWorkspace is available at: https://example.com/hugo/workspace-name",
+            `Initial comment\n\n${section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run)."
+            )}`,
+            `Initial comment\n\n${section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo/workspace-name"
+            )}`,
+            `Initial comment\n\n${section(
+              "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo/workspace-name"
+            )}`,
           ],
           workspaceStarted: true,
           startWorkspace: {
@@ -209,6 +1229,14 @@ describe("StartWorkspaceAction", () => {
           },
         }
       );
+      expect(mock.actionResult).toEqual({
+        mode: "start",
+        action: "created",
+        statusCommentId: 123,
+        coderUsername: "hugo",
+        workspaceName: "workspace-name",
+        workspaceUrl: "https://example.com/hugo/workspace-name",
+      });
     });
 
     it("happy path with coder username", async () => {
@@ -222,8 +1250,18 @@ describe("StartWorkspaceAction", () => {
         {
           issueComments: [
             "Initial comment",
-            "Initial comment\n\nWorkspace will be available at: https://example.com/hugo-coder/workspace-name",
-            "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\nWorkspace is available at: https://example.com/hugo-coder/workspace-name",
+            `Initial comment\n\n${section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).",
+              "hugo-coder/workspace-name"
+            )}`,
+            `Initial comment\n\n${section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo-coder/workspace-name",
+              "hugo-coder/workspace-name"
+            )}`,
+            `Initial comment\n\n${section(
+              "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo-coder/workspace-name",
+              "hugo-coder/workspace-name"
+            )}`,
           ],
           workspaceStarted: true,
           startWorkspace: {
@@ -235,6 +1273,560 @@ describe("StartWorkspaceAction", () => {
       );
     });
 
+    it("renders the workspace name template", async () => {
+      const action = newAction({
+        input: {
+          workspaceName: undefined,
+          workspaceNameTemplate: "{number}-{title-slug}",
+        },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      action.githubGetIssue = async () => ({
+        title: "Crash when saving Ünicode!",
+        body: "",
+        url: "https://github.com/coder/create-workspace-action/issues/123",
+        isPullRequest: false,
+      });
+
+      await action.execute();
+      expect(mock.startWorkspaceArgs?.workspaceName).toBe(
+        "42-crash-when-saving-unicode"
+      );
+      expect(mock.actionResult?.workspaceName).toBe(
+        "42-crash-when-saving-unicode"
+      );
+    });
+
+    it("rejects {branch-slug} when the issue is not a pull request", async () => {
+      const action = newAction({
+        input: {
+          workspaceName: undefined,
+          workspaceNameTemplate: "pr-{branch-slug}",
+        },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      action.githubGetIssue = async () => ({
+        title: "Crash",
+        body: "",
+        url: "https://github.com/coder/create-workspace-action/issues/42",
+        isPullRequest: false,
+      });
+      let pullRequestFetched = false;
+      action.githubGetPullRequest = async () => {
+        pullRequestFetched = true;
+        throw new Error("Not Found");
+      };
+
+      await expect(action.execute()).rejects.toThrow(
+        "The {branch-slug} variable in `workspace-name-template` can only be used when #42 is a pull request"
+      );
+      expect(pullRequestFetched).toBe(false);
+      expect(mock.workspaceStarted).toBe(false);
+    });
+
+    it("rejects template variables without a value", async () => {
+      const action = newAction({
+        input: {
+          workspaceName: undefined,
+          workspaceNameTemplate: "{repo}-{actor}",
+          githubActor: undefined,
+        },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+
+      await expect(action.execute()).rejects.toThrow(
+        "`workspace-name-template` uses {actor}, which has no value in this run"
+      );
+      expect(mock.workspaceStarted).toBe(false);
+    });
+
+    it("rejects invalid workspace names", async () => {
+      const action = newAction({ input: { workspaceName: "My_Workspace" } });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+
+      await expect(action.execute()).rejects.toThrow(UserFacingError);
+      expect(mock.workspaceStarted).toBe(false);
+      expect(mock.issueComments[mock.issueComments.length - 1]).toEqual(
+        `Initial comment\n\n${section(
+          '❌ Invalid `workspace-name`: Workspace name "My_Workspace" must consist of lowercase letters, digits and single hyphens, and must not start or end with a hyphen',
+          null
+        )}`
+      );
+    });
+
+    it("routes issue labels to a template and parameters", async () => {
+      const action = newAction({
+        input: {
+          commentTemplate: "{{ status }}\n\nRouting: {{ label_route }}",
+          labelRouting: dedent`
+            - labels: [needs-gpu]
+              template: gpu-dev
+              parameters:
+                key: "{{ repo.full_name }}"
+            - labels: [area/infra]
+              template: infra
+          `,
+        },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      action.githubGetIssueLabels = async () => ["area/infra", "needs-gpu"];
+
+      await action.execute();
+      expect(mock.startWorkspaceArgs?.templateName).toBe("gpu-dev");
+      expect(mock.startWorkspaceArgs?.parameters).toEqual({
+        key: "github-repo-owner/github-repo-name",
+        key2: "value2",
+        key3: "value3",
+      });
+      expect(mock.issueComments[mock.issueComments.length - 1]).toEqual(
+        `Initial comment\n\n${section(
+          "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\nRouting: rule 1 (labels `needs-gpu`): template gpu-dev, parameters key"
+        )}`
+      );
+    });
+
+    it("rejects invalid label routing rules", async () => {
+      const action = newAction({
+        input: { labelRouting: "- labels: needs-gpu\n  template: gpu-dev" },
+      });
+      mockForExecute(action, { coderUsernamesByGitHubId: ["hugo"] });
+
+      await expect(action.execute()).rejects.toThrow(
+        "`label-routing` must be a list of rules with `labels`, `template` and `parameters`: 0.labels:"
+      );
+    });
+
+    it("applies template and parameter overrides from a /coder command", async () => {
+      const logger = new TestLogger();
+      const action = newAction({
+        logger,
+        input: {
+          allowedTemplates: "ubuntu, gpu-dev",
+          overridableParameters: "region\nsize\napi_token",
+        },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      action.githubGetIssue = async () => ({
+        title: "Train the model",
+        body: "Needs a GPU.\n\n/coder start template=gpu-dev key=override size=large",
+        url: "https://github.com/coder/create-workspace-action/issues/42",
+        isPullRequest: false,
+      });
+
+      await expect(action.execute()).rejects.toThrow(
+        "The `/coder` command was rejected:\n- Parameter key can't be overridden. Overridable parameters: region, size, api_token"
+      );
+      expect(mock.workspaceStarted).toBe(false);
+
+      action.githubGetIssue = async () => ({
+        title: "Train the model",
+        body: "/coder start template=gpu-dev size=large api_token=hunter2",
+        url: "https://github.com/coder/create-workspace-action/issues/42",
+        isPullRequest: false,
+      });
+      await action.execute();
+      expect(logger.logs).toContain(
+        "Overrides from the /coder command: template=gpu-dev size=large api_token=******"
+      );
+      expect(mock.startWorkspaceArgs?.templateName).toBe("gpu-dev");
+      expect(mock.startWorkspaceArgs?.parameters).toEqual({
+        key: "value",
+        key2: "value2",
+        key3: "value3",
+        size: "large",
+        api_token: "hunter2",
+      });
+    });
+
+    it("rejects templates that aren't allowed in a /coder command", async () => {
+      const action = newAction({
+        input: { overridableParameters: "size", githubCommentId: 99 },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      action.githubGetIssueCommentBody = async () =>
+        "/coder start template=gpu-dev";
+
+      await expect(action.execute()).rejects.toThrow(UserFacingError);
+      expect(mock.workspaceStarted).toBe(false);
+      expect(mock.issueComments[mock.issueComments.length - 1]).toEqual(
+        `Initial comment\n\n${section(
+          "❌ The `/coder` command was rejected:\n- Template gpu-dev is not allowed. The template can't be changed."
+        )}`
+      );
+    });
+
+    it("adds a suffix to taken names in rename mode", async () => {
+      const action = newAction({ input: { ifExists: "rename" } });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      const taken = ["workspace-name", "workspace-name-2"];
+      action["coder"].getWorkspaceByOwnerAndName = async (_owner, name) =>
+        taken.includes(name) ? ({ name } as Workspace) : undefined;
+
+      await action.execute();
+      expect(mock.startWorkspaceArgs?.workspaceName).toBe("workspace-name-3");
+      expect(mock.actionResult?.workspaceUrl).toBe(
+        "https://example.com/hugo/workspace-name-3"
+      );
+    });
+
+    it("posts a new status comment for every workspace in rename mode", async () => {
+      const action = newAction({
+        input: { ifExists: "rename", githubStatusCommentId: undefined },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: section(
+          "✅ Coder workspace started!\n\nWorkspace: https://example.com/hugo/workspace-name"
+        ),
+        previousCommentId: 7,
+      });
+      action["coder"].getWorkspaceByOwnerAndName = async (_owner, name) =>
+        name === "workspace-name" ? ({ name } as Workspace) : undefined;
+
+      await action.execute();
+      expect(mock.startWorkspaceArgs?.workspaceName).toBe("workspace-name-2");
+      expect(mock.actionResult?.statusCommentId).toBe(456);
+      expect(mock.issueComments[1]).toEqual(
+        section(
+          "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).",
+          null
+        )
+      );
+      expect(mock.issueComments[mock.issueComments.length - 1]).toEqual(
+        section(
+          "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo/workspace-name-2",
+          "hugo/workspace-name-2"
+        )
+      );
+    });
+
+    it("rejects users without the required role before calling Coder", async () => {
+      const action = newAction({ input: { requiredPermission: "write" } });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      let coderCalled = false;
+      action["coder"].getCoderUsersByGitHubId = async () => {
+        coderCalled = true;
+        return ["hugo"];
+      };
+      action.githubGetRepoPermission = async () => "triage";
+
+      await expect(action.execute()).rejects.toThrow(UserFacingError);
+      expect(coderCalled).toBe(false);
+      expect(mock.workspaceStarted).toBe(false);
+      expect(mock.issueComments[mock.issueComments.length - 1]).toEqual(
+        `Initial comment\n\n${section(
+          "❌ @github-actor is not allowed to use this action. It requires the write role or higher in github-repo-owner/github-repo-name, but @github-actor has the triage role.",
+          null
+        )}`
+      );
+    });
+
+    it("posts a new comment instead of reusing one for rejected users", async () => {
+      const action = newAction({
+        input: {
+          requiredPermission: "write",
+          githubStatusCommentId: undefined,
+        },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: section("✅ Coder workspace started!"),
+        previousCommentId: 789,
+      });
+      action.githubGetRepoPermission = async () => "read";
+
+      await expect(action.execute()).rejects.toThrow(UserFacingError);
+      expect(mock.actionResult?.statusCommentId).toBe(456);
+      // Without the marker, later runs don't pick up the rejection
+      expect(mock.issueComments[1]).toEqual(
+        section(
+          "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).",
+          null
+        )
+      );
+    });
+
+    it("allows users with the required role", async () => {
+      const action = newAction({ input: { requiredPermission: "write" } });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      action.githubGetRepoPermission = async () => "maintain";
+
+      await action.execute();
+      expect(mock.workspaceStarted).toBe(true);
+    });
+
+    it("checks the user and team allowlists", async () => {
+      const teamsChecked: string[] = [];
+      const newAllowlistAction = (allowedUsers: string) => {
+        const action = newAction({
+          input: {
+            requiredPermission: "read",
+            allowedUsers,
+            allowedTeams: "coder/admins, coder/devs",
+          },
+        });
+        const mock = mockForExecute(action, {
+          coderUsernamesByGitHubId: ["hugo"],
+          initialIssueComment: "Initial comment",
+        });
+        action.githubGetRepoPermission = async () => "read";
+        action.githubIsTeamMember = async ({ org, teamSlug }) => {
+          teamsChecked.push(`${org}/${teamSlug}`);
+          return teamSlug === "devs";
+        };
+        return { action, mock };
+      };
+
+      const listed = newAllowlistAction("someone, @GitHub-Actor");
+      await listed.action.execute();
+      expect(listed.mock.workspaceStarted).toBe(true);
+      expect(teamsChecked).toEqual([]);
+
+      const teamMember = newAllowlistAction("someone");
+      await teamMember.action.execute();
+      expect(teamMember.mock.workspaceStarted).toBe(true);
+      expect(teamsChecked).toEqual(["coder/admins", "coder/devs"]);
+
+      const stranger = newAllowlistAction("someone");
+      stranger.action.githubIsTeamMember = async () => false;
+      await expect(stranger.action.execute()).rejects.toThrow(
+        "@github-actor is not allowed to use this action. They are not listed in `allowed-users` and are not a member of a team in `allowed-teams`."
+      );
+      expect(stranger.mock.workspaceStarted).toBe(false);
+    });
+
+    it("teardown mode", async () => {
+      const action = newAction({
+        input: { mode: "delete", templateName: undefined },
+      });
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "🔄 Deleting a Coder workspace.",
+      });
+      let teardownArgs:
+        | Parameters<StartWorkspaceAction["coderTeardownWorkspace"]>[0]
+        | undefined;
+      action.coderTeardownWorkspace = async (args) => {
+        teardownArgs = args;
+        return "deleted";
+      };
+
+      await action.execute();
+      expect(mock.workspaceStarted).toBe(false);
+      expect(teardownArgs).toEqual({
+        coderUsername: "hugo",
+        workspaceName: "workspace-name",
+        transition: "delete",
+      });
+      expect(mock.issueComments).toEqual([
+        "🔄 Deleting a Coder workspace.",
+        `🔄 Deleting a Coder workspace.\n\n${section(
+          "🔄 Deleting a Coder workspace. You can track the progress [here](https://github.com/workflow-run)."
+        )}`,
+        `🔄 Deleting a Coder workspace.\n\n${section(
+          "🗑️ Workspace deleted. You can view the action logs [here](https://github.com/workflow-run)."
+        )}`,
+      ]);
+    });
+
+    it("posts a new status comment", async () => {
+      const mock = await executeTest(
+        {
+          input: { githubStatusCommentId: undefined },
+        },
+        {
+          coderUsernamesByGitHubId: ["hugo"],
+        },
+        {
+          issueComments: [
+            "",
+            section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run)."
+            ),
+            section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo/workspace-name"
+            ),
+            section(
+              "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo/workspace-name"
+            ),
+          ],
+          workspaceStarted: true,
+          startWorkspace: {
+            coderUsername: "hugo",
+            templateName: "ubuntu",
+            workspaceName: "workspace-name",
+          },
+        }
+      );
+      expect(mock.actionResult?.statusCommentId).toBe(456);
+    });
+
+    it("reuses the status comment of an earlier run", async () => {
+      const mock = await executeTest(
+        { input: { githubStatusCommentId: undefined } },
+        {
+          coderUsernamesByGitHubId: ["hugo"],
+          initialIssueComment: section("❌ Build failed"),
+          previousCommentId: 789,
+        },
+        {
+          issueComments: [
+            section("❌ Build failed"),
+            section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run)."
+            ),
+            section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo/workspace-name"
+            ),
+            section(
+              "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\nWorkspace: https://example.com/hugo/workspace-name"
+            ),
+          ],
+          workspaceStarted: true,
+          startWorkspace: {
+            coderUsername: "hugo",
+            templateName: "ubuntu",
+            workspaceName: "workspace-name",
+          },
+        }
+      );
+      expect(mock.actionResult?.statusCommentId).toBe(789);
+    });
+
+    it("renders the default comment template with a checklist", async () => {
+      const newChecklistAction = () => {
+        const action = newAction({
+          input: {
+            commentTemplate: undefined,
+            githubStatusCommentId: undefined,
+          },
+        });
+        const mock = mockForExecute(action, {
+          coderUsernamesByGitHubId: ["hugo"],
+        });
+        return { action, mock };
+      };
+
+      const succeeded = newChecklistAction();
+      await succeeded.action.execute();
+      expect(succeeded.mock.issueComments[1]).toEqual(
+        section(
+          "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).\n\n- ⏳ Coder user resolved\n- ⬜ Template found\n- ⬜ Build queued\n- ⬜ Build running\n- ⬜ Workspace ready"
+        )
+      );
+      expect(
+        succeeded.mock.issueComments[succeeded.mock.issueComments.length - 1]
+      ).toEqual(
+        section(
+          "✅ Coder workspace started! You can view the action logs [here](https://github.com/workflow-run).\n\n- ✅ Coder user resolved\n- ✅ Template found\n- ✅ Build queued\n- ✅ Build running\n- ✅ Workspace ready\n\nWorkspace: https://example.com/hugo/workspace-name"
+        )
+      );
+
+      const failed = newChecklistAction();
+      failed.action.coderStartWorkspace = async () => {
+        throw new UserFacingError("Template ubuntu not found");
+      };
+      await expect(failed.action.execute()).rejects.toThrow(UserFacingError);
+      expect(
+        failed.mock.issueComments[failed.mock.issueComments.length - 1]
+      ).toEqual(
+        section(
+          "❌ Template ubuntu not found\n\n- ✅ Coder user resolved\n- ❌ Template found\n- ⬜ Build queued\n- ⬜ Build running\n- ⬜ Workspace ready\n\nWorkspace: https://example.com/hugo/workspace-name"
+        )
+      );
+    });
+
+    it("reports unexpected errors with a link to the logs", async () => {
+      const action = newAction();
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      action.coderStartWorkspace = async () => {
+        throw new Error("connection reset\nat line 2");
+      };
+
+      await expect(action.execute()).rejects.toThrow("connection reset");
+      expect(mock.issueComments[mock.issueComments.length - 1]).toEqual(
+        `Initial comment\n\n${section(
+          "❌ Failed to start the workspace. Please check the [action logs](https://github.com/workflow-run) for details.\n\nWorkspace: https://example.com/hugo/workspace-name"
+        )}`
+      );
+    });
+
+    it("explains known Coder API errors", async () => {
+      const action = newAction();
+      const mock = mockForExecute(action, {
+        coderUsernamesByGitHubId: ["hugo"],
+        initialIssueComment: "Initial comment",
+      });
+      action.coderStartWorkspace = async () => {
+        throw new CoderApiError("Failed to get Coder user, status code: 401", {
+          status: 401,
+          endpoint: "/api/v2/users/hugo",
+          apiMessage: "API key expired.",
+        });
+      };
+
+      await expect(action.execute()).rejects.toThrow(UserFacingError);
+      expect(mock.issueComments[mock.issueComments.length - 1]).toEqual(
+        `Initial comment\n\n${section(
+          "❌ Coder rejected the API token (API key expired.). It may be invalid or expired. Please update the token passed to the `coder-token` input.\n\nWorkspace: https://example.com/hugo/workspace-name"
+        )}`
+      );
+    });
+
+    it("reports cancellation", async () => {
+      const action = newAction();
+      const mock = mockForExecute(action, {
+        initialIssueComment: "Initial comment",
+      });
+      await action.initStatusComment();
+      await action.cancel();
+
+      expect(mock.issueComments).toEqual([
+        "Initial comment",
+        `Initial comment\n\n${section(
+          "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).",
+          null
+        )}`,
+        `Initial comment\n\n${section(
+          "⚠️ The workflow run was canceled before the workspace was ready. You can view the action logs [here](https://github.com/workflow-run).",
+          null
+        )}`,
+      ]);
+    });
+
     it("no username mapping", async () => {
       const mock = await executeTest(
         {
@@ -244,7 +1836,17 @@ describe("StartWorkspaceAction", () => {
           coderUsernamesByGitHubId: [],
         },
         {
-          issueComments: [""],
+          issueComments: [
+            "",
+            section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).",
+              null
+            ),
+            section(
+              "❌ No matching Coder user found for GitHub user @hugo. Please connect your GitHub account with Coder and try again: https://example.com/settings/external-auth",
+              null
+            ),
+          ],
           workspaceStarted: false,
         }
       );
@@ -252,6 +1854,11 @@ describe("StartWorkspaceAction", () => {
       expect((mock.error as any).message).toEqual(
         `No matching Coder user found for GitHub user @hugo. Please connect your GitHub account with Coder and try again: https://example.com/settings/external-auth`
       );
+      expect(mock.actionResult).toEqual({
+        mode: "start",
+        statusCommentId: 123,
+        error: `No matching Coder user found for GitHub user @hugo. Please connect your GitHub account with Coder and try again: https://example.com/settings/external-auth`,
+      });
     });
 
     it("multiple coder users for same github user", async () => {
@@ -263,7 +1870,17 @@ describe("StartWorkspaceAction", () => {
           coderUsernamesByGitHubId: ["hugo", "alice", "bob", "charlie"],
         },
         {
-          issueComments: [""],
+          issueComments: [
+            "",
+            section(
+              "🔄 Starting a Coder workspace. You can track the progress [here](https://github.com/workflow-run).",
+              null
+            ),
+            section(
+              "❌ Multiple Coder users found for GitHub user hugo: hugo, alice, bob, and others. Please connect other users to other GitHub accounts and try again.",
+              null
+            ),
+          ],
           workspaceStarted: false,
         }
       );
@@ -1,8 +1,90 @@
 import assert from "assert";
+import fs from "fs/promises";
 import yaml from "yaml";
 import { Octokit } from "@octokit/rest";
 import { z } from "zod";
-import { CoderClient } from "./coder";
+import {
+  isRepoPermission,
+  meetsPermission,
+  parseList,
+  parseTeam,
+  REPO_PERMISSIONS,
+  type RepoPermission,
+} from "./authorization";
+import { BuildLogTail } from "./build-logs";
+import {
+  CoderApiError,
+  CoderClient,
+  isAgentStartDone,
+  isProvisionerJobDone,
+  workspaceAgents,
+  type Template,
+  type TemplateVersionParameter,
+  type TemplateVersionPreset,
+  type Workspace,
+  type WorkspaceBuild,
+  type WorkspaceTransition,
+} from "./coder";
+import {
+  encodeParameters,
+  validateParameters,
+  type ParameterValue,
+} from "./parameters";
+import {
+  formatGitHubFileEntries,
+  renderJobSummary,
+  resultOutputs,
+  type ActionResult,
+} from "./outputs";
+import {
+  fillPlaceholders,
+  findPlaceholders,
+  isPlaceholder,
+  PLACEHOLDERS,
+  type Placeholder,
+} from "./placeholders";
+import { describeCoderApiError, isNameConflictError } from "./coder-errors";
+import { renderAppLinks, workspaceAppLinks } from "./apps";
+import { parseSlashCommand } from "./command";
+import {
+  describeLifecycle,
+  formatDuration,
+  parseAutostartSchedule,
+  parseDuration,
+  type LifecycleSettings,
+} from "./lifecycle";
+import {
+  describeLabelRouteMatch,
+  matchLabelRoute,
+  type LabelRoute,
+} from "./label-routing";
+import {
+  DEFAULT_COMMENT_TEMPLATE,
+  findUnknownCommentPlaceholders,
+  renderChecklist,
+  renderComment,
+  type CommentState,
+} from "./comment-template";
+import {
+  isSensitiveParameter,
+  REDACTED,
+  redactParameters,
+  renderPlan,
+} from "./plan";
+import {
+  githubCommentApi,
+  StatusComment,
+  type IssueCommentApi,
+} from "./status-comment";
+import {
+  findNameVariables,
+  isNameVariable,
+  renderWorkspaceName,
+  validateWorkspaceName,
+  withNameSuffix,
+  WORKSPACE_NAME_VARIABLES,
+  type WorkspaceNameVariable,
+} from "./workspace-name";
 
 export interface Logger {
   log(message: string): void;
@@ -16,6 +98,24 @@ export interface ExecOutput {
 
 export class UserFacingError extends Error {}
 
+export interface StartWorkspaceActionOptions {
+  /** Used instead of GitHub issue comments for the status comment */
+  commentApi?: IssueCommentApi;
+  /** Makes every GitHub API call fail, for running without GitHub */
+  disableGitHub?: boolean;
+}
+
+/**
+ * How many numbered names to try when `if-exists` is `rename`
+ */
+const MAX_NAME_SUFFIX = 20;
+
+const isNotFoundError = (error: unknown): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  "status" in error &&
+  error.status === 404;
+
 export const ActionInputSchema = z.object({
   githubUsername: z.string().min(1).optional(),
   coderUsername: z.string().min(1).optional(),
@@ -30,38 +130,393 @@ export const ActionInputSchema = z.object({
       return trimmed;
     }),
   coderToken: z.string().min(1),
-  workspaceName: z.string().min(1),
+  coderOrganization: z.string().min(1).optional(),
+  workspaceName: z.string().min(1).optional(),
+  workspaceNameTemplate: z.string().min(1).default("issue-{number}"),
   githubStatusCommentId: z
     .string()
     .min(1)
-    .transform((val) => parseInt(val)),
+    .transform((val) => parseInt(val))
+    .optional(),
   githubRepoOwner: z.string().min(1),
   githubRepoName: z.string().min(1),
-  githubToken: z.string().min(1),
+  githubToken: z.string().min(1).optional(),
   githubWorkflowRunUrl: z.string().min(1),
-  templateName: z.string().min(1),
-  workspaceParameters: z.string().min(1),
+  templateName: z.string().min(1).optional(),
+  templateVersion: z.string().min(1).optional(),
+  templatePreset: z.string().min(1).optional(),
+  workspaceParameters: z.string().min(1).optional(),
   githubUrl: z.string().min(1),
+  buildTimeoutSeconds: z
+    .string()
+    .min(1)
+    .default("600")
+    .transform((val) => parseInt(val))
+    .pipe(z.number().int().positive()),
+  buildLogLines: z
+    .string()
+    .min(1)
+    .default("25")
+    .transform((val) => parseInt(val))
+    .pipe(z.number().int().positive()),
+  githubIssueNumber: z
+    .string()
+    .min(1)
+    .transform((val) => parseInt(val)),
+  githubCommentId: z
+    .string()
+    .min(1)
+    .transform((val) => parseInt(val))
+    .optional(),
+  githubActor: z.string().min(1).optional(),
+  placeholderMaxLength: z
+    .string()
+    .min(1)
+    .default("4000")
+    .transform((val) => parseInt(val))
+    .pipe(z.number().int().positive()),
+  githubOutputFile: z.string().min(1).optional(),
+  githubStepSummaryFile: z.string().min(1).optional(),
+  requestTimeoutSeconds: z
+    .string()
+    .min(1)
+    .default("30")
+    .transform((val) => parseInt(val))
+    .pipe(z.number().int().positive()),
+  requestMaxAttempts: z
+    .string()
+    .min(1)
+    .default("4")
+    .transform((val) => parseInt(val))
+    .pipe(z.number().int().positive()),
+  mode: z.enum(["start", "stop", "delete"]).default("start"),
+  waitForBuild: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((val) => val === "true"),
+  ifExists: z
+    .enum(["fail", "start", "update", "recreate", "rename"])
+    .default("fail"),
+  requiredPermission: z.enum(REPO_PERMISSIONS).default("write"),
+  allowedUsers: z.string().optional(),
+  allowedTeams: z.string().optional(),
+  userMapping: z.string().optional(),
+  userMappingFallback: z.enum(["github-id", "fail"]).default("github-id"),
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((val) => val === "true"),
+  sensitiveParameters: z.string().optional(),
+  allowedTemplates: z.string().optional(),
+  overridableParameters: z.string().optional(),
+  labelRouting: z.string().optional(),
+  ttlMs: z
+    .string()
+    .min(1)
+    .optional()
+    .transform((val, ctx) => {
+      if (val === undefined) {
+        return undefined;
+      }
+      const ms = parseDuration(val);
+      if (ms === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "must be a duration like 4h, 90m or 1d12h",
+        });
+        return z.NEVER;
+      }
+      return ms;
+    }),
+  autostartSchedule: z
+    .string()
+    .min(1)
+    .optional()
+    .transform((val, ctx) => {
+      if (val === undefined) {
+        return undefined;
+      }
+      const parsed = parseAutostartSchedule(val);
+      if ("problem" in parsed) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.problem });
+        return z.NEVER;
+      }
+      return parsed.schedule;
+    }),
+  automaticUpdates: z.enum(["always", "never"]).optional(),
+  waitForAgents: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((val) => val === "true"),
+  agentStartError: z.enum(["fail", "warn"]).default("fail"),
+  agentTimeoutSeconds: z
+    .string()
+    .min(1)
+    .default("600")
+    .transform((val) => parseInt(val))
+    .pipe(z.number().int().positive()),
+  commentTemplate: z.string().min(1).optional(),
 });
 
 export type ActionInput = z.infer<typeof ActionInputSchema>;
 
-export const WorkspaceParametersSchema = z.record(z.string(), z.string());
+/**
+ * Names of the inputs in action.yml, which the CLI also uses as flags. The
+ * composite step fills in some inputs itself; those are named like their
+ * environment variables.
+ */
+export const INPUT_NAMES: Record<keyof ActionInput, string> = {
+  githubUsername: "github-username",
+  coderUsername: "coder-username",
+  coderUrl: "coder-url",
+  coderToken: "coder-token",
+  coderOrganization: "coder-organization",
+  workspaceName: "workspace-name",
+  workspaceNameTemplate: "workspace-name-template",
+  githubStatusCommentId: "github-status-comment-id",
+  githubRepoOwner: "github-repo-owner",
+  githubRepoName: "github-repo-name",
+  githubToken: "github-token",
+  githubWorkflowRunUrl: "github-workflow-run-url",
+  templateName: "template-name",
+  templateVersion: "template-version",
+  templatePreset: "template-preset",
+  workspaceParameters: "parameters",
+  githubUrl: "github-url",
+  buildTimeoutSeconds: "build-timeout-seconds",
+  buildLogLines: "build-log-lines",
+  requestTimeoutSeconds: "request-timeout-seconds",
+  requestMaxAttempts: "request-max-attempts",
+  mode: "mode",
+  waitForBuild: "wait-for-build",
+  ifExists: "if-exists",
+  requiredPermission: "required-permission",
+  allowedUsers: "allowed-users",
+  allowedTeams: "allowed-teams",
+  userMapping: "user-mapping",
+  userMappingFallback: "user-mapping-fallback",
+  dryRun: "dry-run",
+  sensitiveParameters: "sensitive-parameters",
+  allowedTemplates: "allowed-templates",
+  overridableParameters: "overridable-parameters",
+  labelRouting: "label-routing",
+  ttlMs: "ttl",
+  autostartSchedule: "autostart-schedule",
+  automaticUpdates: "automatic-updates",
+  waitForAgents: "wait-for-agents",
+  agentStartError: "agent-start-error",
+  agentTimeoutSeconds: "agent-timeout-seconds",
+  commentTemplate: "comment-template",
+  githubIssueNumber: "github-issue-number",
+  githubCommentId: "github-comment-id",
+  githubActor: "github-actor",
+  placeholderMaxLength: "placeholder-max-length",
+  githubOutputFile: "github-output-file",
+  githubStepSummaryFile: "github-step-summary-file",
+};
+
+/**
+ * Lists the problems with the inputs, one per line, by their input names
+ */
+export const describeInputIssues = (
+  error: z.ZodError,
+  formatName: (name: string) => string
+): string =>
+  error.issues
+    .map((issue) => {
+      const key = issue.path[0] as keyof ActionInput;
+      return `${formatName(INPUT_NAMES[key] ?? key)}: ${issue.message}`;
+    })
+    .join("\n");
+
+const WorkspaceParameterScalarSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+]);
+
+export const WorkspaceParametersSchema: z.ZodType<
+  Record<string, ParameterValue>
+> = z.record(
+  z.string(),
+  z.union([
+    WorkspaceParameterScalarSchema,
+    z.array(WorkspaceParameterScalarSchema),
+  ])
+);
 
 export type WorkspaceParameters = z.infer<typeof WorkspaceParametersSchema>;
 
+/**
+ * Maps GitHub logins or GitHub user IDs to Coder usernames
+ */
+const UserMappingSchema = z.record(z.string(), z.string().min(1));
+
+const LabelRoutingSchema: z.ZodType<LabelRoute[]> = z.array(
+  z
+    .object({
+      labels: z.array(z.string().min(1)).min(1).optional(),
+      template: z.string().min(1).optional(),
+      parameters: WorkspaceParametersSchema.optional(),
+    })
+    .strict()
+);
+
+/**
+ * Where the code of a pull request lives. The head repository differs from
+ * the base repository for pull requests from forks.
+ */
+export interface PullRequestRefs {
+  headRepoCloneUrl: string;
+  headRepoFullName: string;
+  headRef: string;
+  headSha: string;
+  baseRef: string;
+}
+
+/**
+ * What the action did to the workspace
+ */
+export type WorkspaceAction =
+  | "created"
+  | "started"
+  | "already-running"
+  | "updated"
+  | "recreated"
+  | "stopped"
+  | "stop-queued"
+  | "already-stopped"
+  | "deleted"
+  | "delete-queued"
+  | "not-found"
+  | "planned"
+  | "build-joined";
+
+const workspaceActionMessages: Record<WorkspaceAction, string> = {
+  created: "✅ Coder workspace started!",
+  started: "✅ Existing Coder workspace started!",
+  "already-running": "✅ Coder workspace is already running!",
+  updated: "✅ Coder workspace updated to the latest template version!",
+  recreated: "✅ Coder workspace recreated!",
+  stopped: "🛑 Workspace stopped.",
+  "stop-queued": "🛑 Workspace is stopping.",
+  "already-stopped": "🛑 Workspace is already stopped.",
+  deleted: "🗑️ Workspace deleted.",
+  "delete-queued": "🗑️ Workspace is being deleted.",
+  "not-found": "ℹ️ There is no workspace to tear down.",
+  planned: "📝 Dry run: no workspace was changed.",
+  "build-joined":
+    "✅ Coder workspace started! Another run had already started building it.",
+};
+
+type ProgressStep =
+  | "user"
+  | "template"
+  | "queued"
+  | "running"
+  | "ready"
+  | "agents";
+
+/**
+ * The steps of the status comment's checklist for each mode
+ */
+const progressSteps: Record<ActionInput["mode"], [ProgressStep, string][]> = {
+  start: [
+    ["user", "Coder user resolved"],
+    ["template", "Template found"],
+    ["queued", "Build queued"],
+    ["running", "Build running"],
+    ["ready", "Workspace ready"],
+    ["agents", "Agents ready"],
+  ],
+  stop: [
+    ["user", "Coder user resolved"],
+    ["queued", "Build queued"],
+    ["running", "Build running"],
+    ["ready", "Workspace stopped"],
+  ],
+  delete: [
+    ["user", "Coder user resolved"],
+    ["queued", "Build queued"],
+    ["running", "Build running"],
+    ["ready", "Workspace deleted"],
+  ],
+};
+
+/**
+ * The `if-exists` modes that reuse an existing workspace
+ */
+type ReuseMode = Exclude<ActionInput["ifExists"], "fail" | "rename">;
+
+const plannedExistingActions: Record<ReuseMode, string> = {
+  start: "Start the existing workspace if it is stopped",
+  update: "Rebuild the existing workspace on the template version",
+  recreate: "Delete the existing workspace and create a new one",
+};
+
 export class StartWorkspaceAction {
   private readonly octokit: Octokit;
   private readonly coder: CoderClient;
+  private logCommentIntervalMs = 10_000;
+  private readonly result: ActionResult = {};
+  private readonly statusComment: StatusComment;
+  private commentState: CommentState = "in-progress";
+  private commentStatus: string;
+  private readonly completedSteps = new Set<ProgressStep>();
+  private resolvedWorkspaceName: string | undefined;
+  private resolvedCoderUsername: Promise<string> | undefined;
+  /**
+   * The template to start, which label routing or a `/coder` command may
+   * override
+   */
+  private templateName: string | undefined;
+  private labelRouteDescription: string | undefined;
+  private lifecycleDescription: string | undefined;
+  /** Set when agents failed to start and `agent-start-error` is `warn` */
+  private agentWarning: string | undefined;
   constructor(
     private readonly logger: Logger,
-    private readonly input: ActionInput
+    private readonly input: ActionInput,
+    options: StartWorkspaceActionOptions = {}
   ) {
     this.octokit = new Octokit({
       auth: input.githubToken,
       baseUrl: input.githubUrl,
+      request: options.disableGitHub
+        ? {
+            fetch: async (url: string) => {
+              throw new Error(
+                `GitHub is disabled for this run, but the action needs ${url}`
+              );
+            },
+          }
+        : undefined,
+    });
+    this.coder = new CoderClient(input.coderUrl, input.coderToken, {
+      requestTimeoutMs: input.requestTimeoutSeconds * 1000,
+      maxAttempts: input.requestMaxAttempts,
     });
-    this.coder = new CoderClient(input.coderUrl, input.coderToken);
+    const verb = { start: "Starting", stop: "Stopping", delete: "Deleting" }[
+      input.mode
+    ];
+    this.templateName = input.templateName;
+    this.result.mode = input.mode;
+    this.commentStatus = `🔄 ${verb} a Coder workspace. You can track the progress [here](${input.githubWorkflowRunUrl}).`;
+    this.statusComment = new StatusComment(
+      options.commentApi ??
+        githubCommentApi(this.octokit, {
+          owner: input.githubRepoOwner,
+          repo: input.githubRepoName,
+          issueNumber: input.githubIssueNumber,
+        })
+    );
+  }
+
+  /**
+   * Everything the action learned about the workspace so far
+   */
+  get actionResult(): Readonly<ActionResult> {
+    return this.result;
   }
 
   async coderUsernameByGitHubId(githubUserId: number): Promise<string> {
@@ -94,10 +549,380 @@ export class StartWorkspaceAction {
     return WorkspaceParametersSchema.parse(parsed);
   }
 
+  /**
+   * Converts the parameters into the string form Coder expects for their
+   * declared types and validates them. Throws a UserFacingError listing
+   * every problem with the parameters.
+   */
+  resolveWorkspaceParameters(args: {
+    templateName: string;
+    definitions: TemplateVersionParameter[];
+    parameters: WorkspaceParameters;
+    existingValues?: Record<string, string>;
+  }): Record<string, string> {
+    const encoded = encodeParameters(args.definitions, args.parameters);
+    const problems = [
+      ...encoded.problems,
+      ...validateParameters(
+        args.definitions,
+        encoded.values,
+        args.existingValues,
+        parseList(this.input.sensitiveParameters)
+      ),
+    ];
+    if (problems.length > 0) {
+      throw new UserFacingError(
+        `Invalid workspace parameters for template ${
+          args.templateName
+        }:\n${problems.map((problem) => `- ${problem}`).join("\n")}`
+      );
+    }
+    return encoded.values;
+  }
+
   createWorkspaceUrl(coderUsername: string, workspaceName: string): string {
     return `${this.input.coderUrl}/${coderUsername}/${workspaceName}`;
   }
 
+  /**
+   * Follows the latest build of a workspace until it finishes, printing its
+   * logs and keeping a tail of them in the status comment. Returns the last
+   * observed build and the log tail.
+   */
+  async coderFollowBuild(
+    workspaceId: string
+  ): Promise<{ build: WorkspaceBuild; logTail: BuildLogTail }> {
+    const logTail = new BuildLogTail(this.input.buildLogLines);
+    let lastCommentUpdate = Date.now();
+    const build = await this.coder.followLatestBuildLogs(
+      workspaceId,
+      async (log) => {
+        if (logTail.push(log)) {
+          this.logger.log(`==> ${log.stage}`);
+        }
+        this.logger.log(log.output);
+        await this.completeStep("running");
+        if (Date.now() - lastCommentUpdate < this.logCommentIntervalMs) {
+          return;
+        }
+        lastCommentUpdate = Date.now();
+        await this.updateProgress(logTail.render());
+      },
+      { timeoutMs: this.input.buildTimeoutSeconds * 1000 }
+    );
+    return { build, logTail };
+  }
+
+  /**
+   * Follows the latest build of a workspace and throws a UserFacingError
+   * unless it succeeds. Returns the successful build.
+   */
+  async coderWaitForBuild(workspaceId: string): Promise<WorkspaceBuild> {
+    const { build, logTail } = await this.coderFollowBuild(workspaceId);
+    this.result.buildStatus = build.job.status;
+    switch (build.job.status) {
+      case "succeeded":
+        this.logger.log(`Workspace ${build.transition} build succeeded`);
+        return build;
+      case "failed":
+      case "canceled":
+        throw new UserFacingError(
+          `Workspace build ${build.job.status}: ${
+            build.job.error || "no error message was reported"
+          }${logTail.isEmpty ? "" : `\n\n${logTail.render()}`}`
+        );
+      default:
+        throw new UserFacingError(
+          `Workspace build did not finish within ${this.input.buildTimeoutSeconds} seconds (last status: ${build.job.status})`
+        );
+    }
+  }
+
+  /**
+   * Queues a build for an existing workspace and waits for it to succeed
+   */
+  async coderRunBuild(
+    workspaceId: string,
+    args: {
+      transition: WorkspaceTransition;
+      templateVersionID?: string;
+      presetID?: string;
+      parameters?: Record<string, string>;
+    }
+  ): Promise<WorkspaceBuild> {
+    this.logger.log(`Queueing a ${args.transition} build`);
+    await this.coder.createWorkspaceBuild(workspaceId, args);
+    await this.completeStep("queued");
+    return this.coderWaitForBuild(workspaceId);
+  }
+
+  /**
+   * Follows the start build that another run queued for the workspace
+   * instead of starting another one
+   */
+  private async coderJoinStartBuild(workspace: Workspace): Promise<void> {
+    this.result.workspaceId = workspace.id;
+    this.logger.log(
+      `Workspace ${workspace.name} is already being started, following that build instead of starting another`
+    );
+    await this.coderWaitForBuild(workspace.id);
+  }
+
+  private isStartInProgress(workspace: Workspace): boolean {
+    const build = workspace.latest_build;
+    return (
+      build.transition === "start" && !isProvisionerJobDone(build.job.status)
+    );
+  }
+
+  /**
+   * Throws a UserFacingError if the `if-exists` mode doesn't allow reusing
+   * an existing workspace. Returns the mode otherwise.
+   */
+  checkMayReuseWorkspace(
+    workspace: Workspace,
+    coderUsername: string
+  ): ReuseMode {
+    this.logger.log(
+      `Workspace ${workspace.name} already exists, if-exists mode is ${this.input.ifExists}`
+    );
+    // In rename mode the name was free moments ago, so treat it like fail
+    if (this.input.ifExists === "fail" || this.input.ifExists === "rename") {
+      throw new UserFacingError(
+        `Workspace ${workspace.name} already exists for Coder user ${coderUsername}. Set the \`if-exists\` input to \`start\`, \`update\` or \`recreate\` to reuse it.`
+      );
+    }
+    return this.input.ifExists;
+  }
+
+  /**
+   * Applies the `if-exists` mode to a workspace that already exists. Returns
+   * the action that was taken, or undefined if the workspace is gone and a
+   * new one should be created.
+   */
+  async coderHandleExistingWorkspace(
+    workspace: Workspace,
+    args: {
+      coderUsername: string;
+      templateVersionId: string;
+      presetId?: string;
+      parameters: Record<string, string>;
+    }
+  ): Promise<WorkspaceAction | undefined> {
+    const { coderUsername, templateVersionId, presetId, parameters } = args;
+    this.checkMayReuseWorkspace(workspace, coderUsername);
+
+    let build = workspace.latest_build;
+    if (!isProvisionerJobDone(build.job.status)) {
+      this.logger.log("Waiting for the workspace's current build to finish");
+      build = await this.coderWaitForBuild(workspace.id);
+    }
+    if (build.transition === "delete" && build.job.status === "succeeded") {
+      return undefined;
+    }
+    const isRunning =
+      build.transition === "start" && build.job.status === "succeeded";
+
+    switch (this.input.ifExists) {
+      case "start":
+        if (isRunning) {
+          this.logger.log("Workspace is already running");
+          this.result.buildStatus = build.job.status;
+          return "already-running";
+        }
+        await this.coderRunBuild(workspace.id, { transition: "start" });
+        return "started";
+      case "update":
+        if (isRunning) {
+          await this.coderRunBuild(workspace.id, { transition: "stop" });
+        }
+        await this.coderRunBuild(workspace.id, {
+          transition: "start",
+          templateVersionID: templateVersionId,
+          presetID: presetId,
+          parameters,
+        });
+        return "updated";
+      case "recreate":
+        await this.coderRunBuild(workspace.id, { transition: "delete" });
+        return "recreated";
+    }
+  }
+
+  /**
+   * Stops or deletes a workspace. Unless `wait-for-build` is false, waits for
+   * the build to finish.
+   */
+  async coderTeardownWorkspace({
+    coderUsername,
+    workspaceName,
+    transition,
+  }: {
+    coderUsername: string;
+    workspaceName: string;
+    transition: "stop" | "delete";
+  }): Promise<WorkspaceAction> {
+    this.logger.log("Getting user ID");
+    const coderUserId = await this.coder.getUserID(coderUsername);
+    const workspace = await this.coder.getWorkspaceByOwnerAndName(
+      coderUserId,
+      workspaceName
+    );
+    if (!workspace) {
+      this.logger.log(`Workspace ${workspaceName} does not exist`);
+      return "not-found";
+    }
+    this.result.workspaceId = workspace.id;
+    if (this.input.dryRun) {
+      this.result.plan = {
+        owner: coderUsername,
+        workspaceName,
+        action:
+          transition === "stop" ? "Stop the workspace" : "Delete the workspace",
+        parameters: {},
+      };
+      return "planned";
+    }
+
+    // Coder rejects new builds while one is in progress
+    let build = workspace.latest_build;
+    if (!isProvisionerJobDone(build.job.status)) {
+      this.logger.log("Waiting for the workspace's current build to finish");
+      build = await this.coderWaitForBuild(workspace.id);
+    }
+    if (
+      transition === "stop" &&
+      build.transition === "stop" &&
+      build.job.status === "succeeded"
+    ) {
+      this.logger.log("Workspace is already stopped");
+      this.result.buildStatus = build.job.status;
+      return "already-stopped";
+    }
+
+    if (!this.input.waitForBuild) {
+      this.logger.log(`Queueing a ${transition} build`);
+      const queued = await this.coder.createWorkspaceBuild(workspace.id, {
+        transition,
+      });
+      this.result.buildStatus = queued.job.status;
+      await this.completeStep("queued");
+      return transition === "stop" ? "stop-queued" : "delete-queued";
+    }
+    await this.coderRunBuild(workspace.id, { transition });
+    return transition === "stop" ? "stopped" : "deleted";
+  }
+
+  /**
+   * Finds the template in the `coder-organization`, or in any organization
+   * if it isn't set. Throws a UserFacingError if there is no such template,
+   * or if several organizations have one.
+   */
+  async coderGetTemplate(templateName: string): Promise<Template> {
+    const organization = this.input.coderOrganization;
+    if (organization) {
+      const template = await this.coder.getTemplateByOrganizationAndName(
+        organization,
+        templateName
+      );
+      if (!template) {
+        throw new UserFacingError(
+          `Template ${templateName} not found in Coder organization ${organization}`
+        );
+      }
+      return template;
+    }
+
+    const templates = await this.coder.getTemplatesByName(templateName);
+    const [template, ...others] = templates;
+    if (!template) {
+      throw new UserFacingError(`Template ${templateName} not found`);
+    }
+    if (others.length > 0) {
+      throw new UserFacingError(
+        `Template ${templateName} exists in several Coder organizations: ${templates
+          .map((t) => t.organization_name ?? t.organization_id)
+          .join(
+            ", "
+          )}. Please set the \`coder-organization\` input to choose one.`
+      );
+    }
+    return template;
+  }
+
+  /**
+   * Throws a UserFacingError if the user is not a member of the
+   * organization the template belongs to, since Coder would reject the
+   * workspace
+   */
+  async coderCheckOrganizationMembership(
+    coderUsername: string,
+    coderUserId: string,
+    template: Template
+  ): Promise<void> {
+    const organizations = await this.coder.getUserOrganizations(coderUserId);
+    if (organizations.some((org) => org.id === template.organization_id)) {
+      return;
+    }
+    throw new UserFacingError(
+      `Coder user ${coderUsername} is not a member of the Coder organization ${
+        template.organization_name ?? template.organization_id
+      }, which template ${
+        template.name
+      } belongs to. Please add them to the organization and try again.`
+    );
+  }
+
+  /**
+   * Returns the ID of the `template-version`, or of the template's active
+   * version if it isn't set
+   */
+  async coderResolveTemplateVersion(template: Template): Promise<string> {
+    const versionName = this.input.templateVersion;
+    if (!versionName) {
+      return template.active_version_id;
+    }
+    const version = await this.coder.getTemplateVersionByName(
+      template.id,
+      versionName
+    );
+    if (!version) {
+      throw new UserFacingError(
+        `Version ${versionName} of template ${template.name} not found`
+      );
+    }
+    this.logger.log(`Using template version ${versionName}`);
+    return version.id;
+  }
+
+  /**
+   * Returns the `template-preset` of the template version, or undefined if
+   * it isn't set
+   */
+  async coderGetPreset(
+    templateVersionId: string
+  ): Promise<TemplateVersionPreset | undefined> {
+    const presetName = this.input.templatePreset;
+    if (!presetName) {
+      return undefined;
+    }
+    const presets = await this.coder.getTemplateVersionPresets(
+      templateVersionId
+    );
+    const preset = presets.find((p) => p.name === presetName);
+    if (!preset) {
+      throw new UserFacingError(
+        `Preset ${presetName} not found. ${
+          presets.length > 0
+            ? `Available presets: ${presets.map((p) => p.name).join(", ")}`
+            : "The template version has no presets."
+        }`
+      );
+    }
+    this.logger.log(`Using template preset ${presetName}`);
+    return preset;
+  }
+
   async coderStartWorkspace({
     coderUsername,
     templateName,
@@ -108,19 +933,254 @@ export class StartWorkspaceAction {
     templateName: string;
     workspaceName: string;
     parameters: WorkspaceParameters;
-  }): Promise<void> {
+  }): Promise<WorkspaceAction> {
     this.logger.log("Getting user ID");
     const coderUserId = await this.coder.getUserID(coderUsername);
     this.logger.log("Getting template info");
-    const { templateId } = await this.coder.getTemplateInfo(templateName);
+    const template = await this.coderGetTemplate(templateName);
+    await this.coderCheckOrganizationMembership(
+      coderUsername,
+      coderUserId,
+      template
+    );
+    const templateId = template.id;
+    const templateVersionId = await this.coderResolveTemplateVersion(template);
+    const preset = await this.coderGetPreset(templateVersionId);
+    await this.completeStep("template");
+
+    this.result.templateVersionId = templateVersionId;
+    this.logger.log("Getting template parameters");
+    const parameterDefinitions =
+      await this.coder.getTemplateVersionRichParameters(templateVersionId);
+
+    let action: WorkspaceAction = "created";
+    const existing = await this.coder.getWorkspaceByOwnerAndName(
+      coderUserId,
+      workspaceName
+    );
+    // Only updates apply the parameters to the existing workspace
+    const existingValues =
+      existing && this.input.ifExists === "update"
+        ? await this.coder.getWorkspaceBuildParameters(existing.latest_build.id)
+        : undefined;
+    const parameterValues = this.resolveWorkspaceParameters({
+      templateName,
+      definitions: parameterDefinitions,
+      // Explicit parameters win over the preset's
+      parameters: { ...preset?.parameters, ...parameters },
+      existingValues,
+    });
+
+    if (this.input.dryRun) {
+      if (existing) {
+        this.result.workspaceId = existing.id;
+      }
+      this.result.plan = {
+        owner: coderUsername,
+        workspaceName,
+        action: existing
+          ? plannedExistingActions[
+              this.checkMayReuseWorkspace(existing, coderUsername)
+            ]
+          : "Create a new workspace",
+        templateName,
+        templateVersion: this.input.templateVersion ?? "Active version",
+        preset: preset?.name,
+        lifecycle: this.hasLifecycleInputs()
+          ? describeLifecycle(this.requestedLifecycle())
+          : undefined,
+        parameters: redactParameters(
+          parameterValues,
+          parseList(this.input.sensitiveParameters)
+        ),
+      };
+      return "planned";
+    }
+
+    if (existing && this.isStartInProgress(existing)) {
+      // Another run for the same workspace, e.g. for a second mention, is
+      // already starting it
+      await this.coderJoinStartBuild(existing);
+      return "build-joined";
+    }
+
+    if (existing) {
+      this.result.workspaceId = existing.id;
+      const existingAction = await this.coderHandleExistingWorkspace(existing, {
+        coderUsername,
+        templateVersionId,
+        presetId: preset?.id,
+        parameters: parameterValues,
+      });
+      if (existingAction !== "recreated" && existingAction !== undefined) {
+        return existingAction;
+      }
+      action = existingAction ?? "created";
+    }
+
     this.logger.log("Creating workspace");
-    await this.coder.createWorkspace({
-      ownerID: coderUserId,
-      templateID: templateId,
-      workspaceName,
-      parameters,
+    let workspaceId: string;
+    try {
+      workspaceId = await this.coder.createWorkspace({
+        ownerID: coderUserId,
+        templateID: templateId,
+        templateVersionID: this.input.templateVersion
+          ? templateVersionId
+          : undefined,
+        presetID: preset?.id,
+        workspaceName,
+        parameters: parameterValues,
+        ...this.requestedLifecycle(),
+      });
+    } catch (error) {
+      // Another run, e.g. for the `issues: opened` event of the same issue,
+      // may have created the workspace since it was looked up
+      if (!(error instanceof CoderApiError) || !isNameConflictError(error)) {
+        throw error;
+      }
+      const created = await this.coder.getWorkspaceByOwnerAndName(
+        coderUserId,
+        workspaceName
+      );
+      if (!created || !this.isStartInProgress(created)) {
+        throw error;
+      }
+      await this.coderJoinStartBuild(created);
+      return "build-joined";
+    }
+    this.result.workspaceId = workspaceId;
+    await this.completeStep("queued");
+    this.logger.log("Workspace created, waiting for the build to finish");
+    await this.coderWaitForBuild(workspaceId);
+    return action;
+  }
+
+  private hasLifecycleInputs(): boolean {
+    return (
+      this.input.ttlMs !== undefined ||
+      this.input.autostartSchedule !== undefined ||
+      this.input.automaticUpdates !== undefined
+    );
+  }
+
+  /**
+   * The lifecycle settings to send when creating a workspace
+   */
+  private requestedLifecycle(): {
+    ttlMs?: number;
+    autostartSchedule?: string;
+    automaticUpdates?: "always" | "never";
+  } {
+    return {
+      ttlMs: this.input.ttlMs,
+      autostartSchedule: this.input.autostartSchedule,
+      automaticUpdates: this.input.automaticUpdates,
+    };
+  }
+
+  /**
+   * Reads the lifecycle settings Coder applied to the workspace and shows
+   * them in the status comment. Coder ignores settings the template doesn't
+   * allow, so warns about requested settings that didn't take effect.
+   */
+  async coderCheckLifecycle(
+    workspaceId: string,
+    isNewWorkspace: boolean
+  ): Promise<void> {
+    const workspace = await this.coder.getWorkspace(workspaceId);
+    // Coder leaves out settings that are off
+    const applied: LifecycleSettings = {
+      ttlMs: workspace.ttl_ms ?? null,
+      autostartSchedule: workspace.autostart_schedule ?? null,
+      automaticUpdates: workspace.automatic_updates,
+    };
+    this.lifecycleDescription = describeLifecycle(applied);
+    this.logger.log(`Workspace lifecycle: ${this.lifecycleDescription}`);
+    if (!isNewWorkspace) {
+      this.logger.log(
+        "Lifecycle settings only apply to new workspaces, so the existing workspace keeps its settings"
+      );
+      return;
+    }
+    const requested = this.requestedLifecycle();
+    const ignored = [
+      ...(requested.ttlMs !== undefined && requested.ttlMs !== applied.ttlMs
+        ? [`ttl ${formatDuration(requested.ttlMs)}`]
+        : []),
+      ...(requested.autostartSchedule !== undefined &&
+      requested.autostartSchedule !== applied.autostartSchedule
+        ? [`autostart-schedule ${requested.autostartSchedule}`]
+        : []),
+      ...(requested.automaticUpdates !== undefined &&
+      requested.automaticUpdates !== applied.automaticUpdates
+        ? [`automatic-updates ${requested.automaticUpdates}`]
+        : []),
+    ];
+    if (ignored.length > 0) {
+      this.logger.warn(
+        `Coder did not apply ${ignored.join(
+          ", "
+        )}. The template may not allow users to change these settings.`
+      );
+    }
+  }
+
+  /**
+   * Waits for the workspace's agents to finish starting and collects the
+   * links to their apps. Agents whose startup scripts failed or timed out
+   * fail the run, or only warn if `agent-start-error` is `warn`.
+   */
+  async coderWaitForAgents(args: {
+    workspaceId: string;
+    coderUsername: string;
+    workspaceName: string;
+  }): Promise<void> {
+    this.logger.log("Waiting for the workspace agents to start");
+    const workspace = await this.coder.waitForAgents(args.workspaceId, {
+      timeoutMs: this.input.agentTimeoutSeconds * 1000,
     });
-    this.logger.log("Workspace created");
+    const agents = workspaceAgents(workspace.latest_build);
+    const starting = agents.filter(
+      (agent) => !isAgentStartDone(agent.lifecycle_state)
+    );
+    if (starting.length > 0) {
+      throw new UserFacingError(
+        `Workspace agents did not finish starting within ${
+          this.input.agentTimeoutSeconds
+        } seconds: ${starting
+          .map((agent) => `${agent.name} (${agent.lifecycle_state})`)
+          .join(", ")}`
+      );
+    }
+    const agentErrors: Record<string, string> = {
+      start_error: "startup script failed",
+      start_timeout: "startup script timed out",
+    };
+    const failed = agents.filter((agent) => agentErrors[agent.lifecycle_state]);
+    if (failed.length > 0) {
+      const message = `Workspace agents failed to start: ${failed
+        .map((agent) => `${agent.name} (${agentErrors[agent.lifecycle_state]})`)
+        .join(", ")}`;
+      if (this.input.agentStartError === "fail") {
+        throw new UserFacingError(message);
+      }
+      this.logger.warn(message);
+      this.agentWarning = message;
+    } else {
+      this.logger.log(
+        `Workspace agents are ready: ${agents
+          .map((agent) => agent.name)
+          .join(", ")}`
+      );
+    }
+    this.result.appLinks = workspaceAppLinks({
+      coderUrl: this.input.coderUrl,
+      owner: args.coderUsername,
+      workspaceName: args.workspaceName,
+      agents,
+      aiAgentAppId: workspace.latest_build.ai_task_sidebar_app_id,
+    });
+    await this.completeStep("agents");
   }
 
   async githubGetUserIdFromUsername(username: string): Promise<number> {
@@ -130,96 +1190,965 @@ export class StartWorkspaceAction {
     return response.data.id;
   }
 
-  async githubUpdateIssueComment(args: {
+  async githubGetIssueCommentBody(args: {
     owner: string;
     repo: string;
     commentId: number;
-    comment: string;
-  }) {
-    await this.octokit.rest.issues.updateComment({
+  }): Promise<string> {
+    const response = await this.octokit.rest.issues.getComment({
       owner: args.owner,
       repo: args.repo,
       comment_id: args.commentId,
-      body: args.comment,
     });
+    const body = response.data.body;
+    assert(body, "Issue comment body is required");
+    return body;
   }
 
-  async githubGetIssueCommentBody(args: {
+  /**
+   * Gets the role of a user in the repository, or "none" if the user has
+   * no access
+   */
+  async githubGetRepoPermission(username: string): Promise<RepoPermission> {
+    try {
+      const response =
+        await this.octokit.rest.repos.getCollaboratorPermissionLevel({
+          owner: this.input.githubRepoOwner,
+          repo: this.input.githubRepoName,
+          username,
+        });
+      // permission folds triage into read and maintain into write,
+      // role_name doesn't
+      const { role_name: roleName, permission } = response.data;
+      if (isRepoPermission(roleName)) {
+        return roleName;
+      }
+      return isRepoPermission(permission) ? permission : "none";
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return "none";
+      }
+      throw error;
+    }
+  }
+
+  async githubIsTeamMember(args: {
+    org: string;
+    teamSlug: string;
+    username: string;
+  }): Promise<boolean> {
+    try {
+      const response = await this.octokit.rest.teams.getMembershipForUserInOrg({
+        org: args.org,
+        team_slug: args.teamSlug,
+        username: args.username,
+      });
+      return response.data.state === "active";
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async githubGetIssue(args: {
     owner: string;
     repo: string;
-    commentId: number;
-  }): Promise<string> {
-    const response = await this.octokit.rest.issues.getComment({
+    issueNumber: number;
+  }): Promise<{
+    title: string;
+    body: string;
+    url: string;
+    isPullRequest: boolean;
+  }> {
+    const response = await this.octokit.rest.issues.get({
       owner: args.owner,
       repo: args.repo,
-      comment_id: args.commentId,
+      issue_number: args.issueNumber,
     });
-    const body = response.data.body;
-    assert(body, "Issue comment body is required");
-    return body;
+    return {
+      title: response.data.title,
+      body: response.data.body ?? "",
+      url: response.data.html_url,
+      isPullRequest: response.data.pull_request !== undefined,
+    };
   }
 
-  async execute() {
-    if (!this.input.githubUsername && !this.input.coderUsername) {
-      throw new Error("GitHub username or Coder username is required");
+  async githubGetIssueLabels(args: {
+    owner: string;
+    repo: string;
+    issueNumber: number;
+  }): Promise<string[]> {
+    const labels = await this.octokit.paginate(
+      this.octokit.rest.issues.listLabelsOnIssue,
+      {
+        owner: args.owner,
+        repo: args.repo,
+        issue_number: args.issueNumber,
+        per_page: 100,
+      }
+    );
+    return labels.map((label) => label.name);
+  }
+
+  async githubGetPullRequest(args: {
+    owner: string;
+    repo: string;
+    pullNumber: number;
+  }): Promise<PullRequestRefs> {
+    const response = await this.octokit.rest.pulls.get({
+      owner: args.owner,
+      repo: args.repo,
+      pull_number: args.pullNumber,
+    });
+    const { head, base } = response.data;
+    if (!head.repo) {
+      throw new UserFacingError(
+        `The head repository of pull request #${args.pullNumber} no longer exists`
+      );
     }
-    if (this.input.githubUsername && this.input.coderUsername) {
-      throw new Error(
-        "Only one of GitHub username or Coder username may be set"
+    return {
+      headRepoCloneUrl: head.repo.clone_url,
+      headRepoFullName: head.repo.full_name,
+      headRef: head.ref,
+      headSha: head.sha,
+      baseRef: base.ref,
+    };
+  }
+
+  /**
+   * Fills in the `{{ ... }}` placeholders in the parameter values with data
+   * about the issue or pull request, the triggering comment, the repository
+   * and the actor. Only the data that is actually used is fetched.
+   */
+  async fillParameterPlaceholders(
+    parameters: WorkspaceParameters
+  ): Promise<WorkspaceParameters> {
+    const used = findPlaceholders(parameters);
+    if (used.length === 0) {
+      return parameters;
+    }
+    const unknown = used.filter((name) => !isPlaceholder(name));
+    if (unknown.length > 0) {
+      throw new UserFacingError(
+        `Unknown placeholders in parameters: ${unknown
+          .map((name) => `{{ ${name} }}`)
+          .join(", ")}. Available placeholders: ${PLACEHOLDERS.map(
+          (name) => `{{ ${name} }}`
+        ).join(", ")}`
       );
     }
-    const parameters = await this.parseParameters(
-      this.input.workspaceParameters
+
+    const owner = this.input.githubRepoOwner;
+    const repo = this.input.githubRepoName;
+    const values: Partial<Record<Placeholder, string>> = {
+      "issue.number": this.input.githubIssueNumber.toString(),
+      "repo.full_name": `${owner}/${repo}`,
+      "actor.login": this.input.githubActor,
+    };
+    const usesPullRequest = used.some((name) =>
+      name.startsWith("pull_request.")
     );
-    let coderUsername = this.input.coderUsername ?? "";
-    if (coderUsername === "") {
-      assert(this.input.githubUsername, "GitHub username is required");
-      this.logger.log(
-        `Getting Coder username for GitHub user ${this.input.githubUsername}`
+    if (usesPullRequest || used.some((name) => name.startsWith("issue."))) {
+      const issue = await this.githubGetIssue({
+        owner,
+        repo,
+        issueNumber: this.input.githubIssueNumber,
+      });
+      values["issue.title"] = issue.title;
+      values["issue.body"] = issue.body;
+      values["issue.url"] = issue.url;
+
+      if (usesPullRequest) {
+        if (!issue.isPullRequest) {
+          throw new UserFacingError(
+            `The {{ pull_request.* }} placeholders can only be used when #${this.input.githubIssueNumber} is a pull request`
+          );
+        }
+        const pr = await this.githubGetPullRequest({
+          owner,
+          repo,
+          pullNumber: this.input.githubIssueNumber,
+        });
+        values["pull_request.head_repo_clone_url"] = pr.headRepoCloneUrl;
+        values["pull_request.head_repo_full_name"] = pr.headRepoFullName;
+        values["pull_request.head_ref"] = pr.headRef;
+        values["pull_request.head_sha"] = pr.headSha;
+        values["pull_request.base_ref"] = pr.baseRef;
+      }
+    }
+    if (used.includes("comment.body")) {
+      if (this.input.githubCommentId === undefined) {
+        throw new UserFacingError(
+          "The {{ comment.body }} placeholder can only be used when the action is triggered by an issue comment"
+        );
+      }
+      values["comment.body"] = await this.githubGetIssueCommentBody({
+        owner,
+        repo,
+        commentId: this.input.githubCommentId,
+      });
+    }
+    if (used.includes("actor.login") && values["actor.login"] === undefined) {
+      throw new UserFacingError(
+        "The {{ actor.login }} placeholder requires the GITHUB_ACTOR environment variable"
+      );
+    }
+    return fillPlaceholders(
+      parameters,
+      values,
+      this.input.placeholderMaxLength
+    );
+  }
+
+  /**
+   * Writes the result to the step outputs and the job summary
+   */
+  async githubWriteResult(result: ActionResult): Promise<void> {
+    if (this.input.githubOutputFile) {
+      await fs.appendFile(
+        this.input.githubOutputFile,
+        formatGitHubFileEntries(resultOutputs(result))
       );
-      const userId = await this.githubGetUserIdFromUsername(
-        this.input.githubUsername
+    }
+    if (this.input.githubStepSummaryFile) {
+      await fs.appendFile(
+        this.input.githubStepSummaryFile,
+        `${renderJobSummary(result)}\n`
       );
-      coderUsername = await this.coderUsernameByGitHubId(userId);
-      this.logger.log(
-        `Coder username for GitHub user ${this.input.githubUsername} is ${coderUsername}`
+    }
+  }
+
+  /**
+   * Posts the status comment, or attaches to the one given in the input.
+   * Unless `reuse` is false, the comment of an earlier run for the same
+   * workspace is used instead of posting a new one.
+   */
+  async initStatusComment(reuse = true): Promise<void> {
+    if (this.input.commentTemplate) {
+      const unknown = findUnknownCommentPlaceholders(
+        this.input.commentTemplate
+      );
+      if (unknown.length > 0) {
+        this.logger.warn(
+          `Unknown placeholders in comment-template: ${unknown.join(", ")}`
+        );
+      }
+    }
+    // Errors are reported once the status comment exists, when run()
+    // resolves the owner and name again. Comments that aren't reused aren't
+    // marked, so later runs don't pick them up either. In rename mode, every
+    // run creates its own workspace, and run() marks the comment once the
+    // name is known.
+    const workspace =
+      reuse && this.input.ifExists !== "rename"
+        ? await Promise.all([
+            this.resolveCoderUsername(),
+            this.resolveWorkspaceName(),
+          ])
+            .then(([owner, name]) => `${owner}/${name}`)
+            .catch(() => undefined)
+        : undefined;
+    if (this.input.githubStatusCommentId !== undefined) {
+      if (workspace) {
+        this.statusComment.identify(workspace);
+      }
+      await this.statusComment.attach(this.input.githubStatusCommentId);
+      await this.statusComment.update(this.renderStatusComment());
+    } else if (workspace) {
+      const reused = await this.statusComment.reuseOrCreate(
+        this.renderStatusComment(),
+        workspace
       );
+      if (reused) {
+        this.logger.log(
+          `Reusing the status comment of an earlier run for workspace ${workspace}`
+        );
+      }
     } else {
-      this.logger.log(`Using Coder username ${this.input.coderUsername}`);
+      await this.statusComment.create(this.renderStatusComment());
     }
+    this.result.statusCommentId = this.statusComment.id;
+  }
 
-    const workspaceUrl = this.createWorkspaceUrl(
-      coderUsername,
-      this.input.workspaceName
+  /**
+   * Renders the action's section of the status comment from the
+   * `comment-template`, followed by `details` such as the build logs
+   */
+  private renderStatusComment(details?: string): string {
+    const checklist = renderChecklist(
+      progressSteps[this.input.mode]
+        .filter(([step]) => step !== "agents" || this.input.waitForAgents)
+        .map(([step, label]) => ({
+          label,
+          done: this.completedSteps.has(step),
+        })),
+      this.commentState
     );
-    this.logger.log(`Workspace URL: ${workspaceUrl}`);
+    const section = renderComment(
+      this.input.commentTemplate ?? DEFAULT_COMMENT_TEMPLATE,
+      {
+        status: this.commentStatus,
+        checklist,
+        workspace_url: this.result.workspaceUrl,
+        owner: this.result.coderUsername,
+        template: this.input.mode === "start" ? this.templateName : undefined,
+        run_url: this.input.githubWorkflowRunUrl,
+        label_route: this.labelRouteDescription,
+        lifecycle: this.lifecycleDescription,
+        apps: this.result.appLinks?.length
+          ? renderAppLinks(this.result.appLinks)
+          : undefined,
+      }
+    );
+    return details ? `${section}\n\n${details}` : section;
+  }
 
-    let commentBody = await this.githubGetIssueCommentBody({
-      owner: this.input.githubRepoOwner,
-      repo: this.input.githubRepoName,
-      commentId: this.input.githubStatusCommentId,
+  /**
+   * Checks off a step of the checklist in the status comment
+   */
+  private async completeStep(step: ProgressStep): Promise<void> {
+    if (this.completedSteps.has(step)) {
+      return;
+    }
+    this.completedSteps.add(step);
+    await this.updateProgress();
+  }
+
+  /**
+   * Updates the status comment while the action runs. The workspace build
+   * goes on if GitHub rejects an update, e.g. because of a rate limit, so
+   * failed updates only cause a warning.
+   */
+  private async updateProgress(details?: string): Promise<void> {
+    try {
+      await this.statusComment.updateIfCreated(
+        this.renderStatusComment(details)
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to update the status comment: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the status line of the status comment and updates it. Does nothing
+   * if the comment was never created.
+   */
+  private async finishStatusComment(
+    state: CommentState,
+    status: string,
+    details?: string
+  ): Promise<void> {
+    this.commentState = state;
+    this.commentStatus = status;
+    await this.statusComment.updateIfCreated(this.renderStatusComment(details));
+  }
+
+  /**
+   * Reports that the run was canceled in the status comment. Called when the
+   * workflow run is canceled while the action is running.
+   */
+  async cancel(): Promise<void> {
+    await this.finishStatusComment(
+      "canceled",
+      `⚠️ The workflow run was canceled before the workspace was ready. You can view the action logs [here](${this.input.githubWorkflowRunUrl}).`
+    );
+  }
+
+  async execute() {
+    try {
+      // Nothing may reach Coder before the user is authorized, and a user
+      // who isn't authorized must not take over the comment of an earlier
+      // run
+      try {
+        await this.authorizeActor();
+      } catch (error) {
+        await this.initStatusComment(false);
+        throw error;
+      }
+      await this.initStatusComment();
+      await this.run();
+    } catch (caught) {
+      const error = this.toUserFacingError(caught);
+      this.result.error =
+        error instanceof UserFacingError
+          ? error.message
+          : `Failed to ${this.input.mode} the workspace. Please check the [action logs](${this.input.githubWorkflowRunUrl}) for details.`;
+      try {
+        await this.finishStatusComment("failed", `❌ ${this.result.error}`);
+      } catch (commentError) {
+        this.logger.warn(
+          `Failed to update the status comment: ${commentError}`
+        );
+      }
+      throw error;
+    } finally {
+      try {
+        await this.githubWriteResult(this.result);
+      } catch (error) {
+        this.logger.warn(`Failed to write the step outputs: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Checks that the user who triggered the workflow has the required
+   * repository role and, if allowlists are set, is listed in
+   * `allowed-users` or is a member of a team in `allowed-teams`. Throws a
+   * UserFacingError otherwise.
+   */
+  async authorizeActor(): Promise<void> {
+    const { requiredPermission } = this.input;
+    const allowedUsers = parseList(this.input.allowedUsers);
+    const allowedTeams = parseList(this.input.allowedTeams).map((entry) => {
+      const team = parseTeam(entry);
+      if (!team) {
+        throw new UserFacingError(
+          `Invalid entry "${entry}" in \`allowed-teams\`. Teams must be given as org/team-slug.`
+        );
+      }
+      return team;
     });
-    commentBody =
-      commentBody + `\n\nWorkspace will be available at: ${workspaceUrl}`;
+    const hasAllowlist = allowedUsers.length > 0 || allowedTeams.length > 0;
+    if (requiredPermission === "none" && !hasAllowlist) {
+      return;
+    }
+
+    const actor = this.input.githubActor;
+    if (!actor) {
+      throw new UserFacingError(
+        "The user who triggered the workflow is unknown, so they cannot be authorized"
+      );
+    }
+    this.logger.log(`Checking whether @${actor} may use this action`);
+    if (requiredPermission !== "none") {
+      const permission = await this.githubGetRepoPermission(actor);
+      if (!meetsPermission(permission, requiredPermission)) {
+        throw new UserFacingError(
+          `@${actor} is not allowed to use this action. It requires the ${requiredPermission} role or higher in ${
+            this.input.githubRepoOwner
+          }/${this.input.githubRepoName}, but @${actor} has ${
+            permission === "none" ? "no access" : `the ${permission} role`
+          }.`
+        );
+      }
+    }
+    if (!hasAllowlist) {
+      return;
+    }
+    if (
+      allowedUsers.some((user) => user.toLowerCase() === actor.toLowerCase())
+    ) {
+      return;
+    }
+    for (const team of allowedTeams) {
+      if (await this.githubIsTeamMember({ ...team, username: actor })) {
+        return;
+      }
+    }
+    throw new UserFacingError(
+      `@${actor} is not allowed to use this action. They are not listed in \`allowed-users\` and are not a member of a team in \`allowed-teams\`.`
+    );
+  }
+
+  /**
+   * Reads the `/coder` command from the triggering comment, or from the
+   * issue body if the action wasn't triggered by a comment, and returns the
+   * template and parameters it overrides. Commands are ignored unless
+   * `allowed-templates` or `overridable-parameters` is set. Throws a
+   * UserFacingError listing every override that isn't allowed.
+   */
+  async resolveCommandOverrides(): Promise<{
+    templateName?: string;
+    parameters: Record<string, string>;
+  }> {
+    const allowedTemplates = parseList(this.input.allowedTemplates);
+    const overridableParameters = parseList(this.input.overridableParameters);
+    if (allowedTemplates.length === 0 && overridableParameters.length === 0) {
+      return { parameters: {} };
+    }
+
+    const owner = this.input.githubRepoOwner;
+    const repo = this.input.githubRepoName;
+    const text =
+      this.input.githubCommentId !== undefined
+        ? await this.githubGetIssueCommentBody({
+            owner,
+            repo,
+            commentId: this.input.githubCommentId,
+          })
+        : (
+            await this.githubGetIssue({
+              owner,
+              repo,
+              issueNumber: this.input.githubIssueNumber,
+            })
+          ).body;
+    const command = parseSlashCommand(text);
+    if (!command) {
+      return { parameters: {} };
+    }
+
+    const problems = [...command.problems];
+    const { template: templateName, ...parameters } = command.args;
+    if (
+      templateName !== undefined &&
+      !allowedTemplates.includes(templateName)
+    ) {
+      problems.push(
+        `Template ${templateName} is not allowed. ${
+          allowedTemplates.length > 0
+            ? `Allowed templates: ${allowedTemplates.join(", ")}`
+            : "The template can't be changed."
+        }`
+      );
+    }
+    for (const name of Object.keys(parameters)) {
+      if (!overridableParameters.includes(name)) {
+        problems.push(
+          `Parameter ${name} can't be overridden. ${
+            overridableParameters.length > 0
+              ? `Overridable parameters: ${overridableParameters.join(", ")}`
+              : "No parameters can be overridden."
+          }`
+        );
+      }
+    }
+    if (problems.length > 0) {
+      throw new UserFacingError(
+        `The \`/coder\` command was rejected:\n${problems
+          .map((problem) => `- ${problem}`)
+          .join("\n")}`
+      );
+    }
+
+    const sensitiveNames = parseList(this.input.sensitiveParameters);
+    const overrides = Object.entries(command.args).map(
+      ([name, value]) =>
+        `${name}=${
+          isSensitiveParameter(name, sensitiveNames) ? REDACTED : value
+        }`
+    );
+    if (overrides.length > 0) {
+      this.logger.log(
+        `Overrides from the /coder command: ${overrides.join(" ")}`
+      );
+    }
+    return { templateName, parameters };
+  }
+
+  /**
+   * Returns the `workspace-name` input, or renders `workspace-name-template`
+   * if it isn't set. Throws a UserFacingError if Coder would reject the name.
+   * The name is only resolved once per run.
+   */
+  async resolveWorkspaceName(): Promise<string> {
+    if (this.resolvedWorkspaceName) {
+      return this.resolvedWorkspaceName;
+    }
+    this.resolvedWorkspaceName = await this.renderWorkspaceNameInput();
+    return this.resolvedWorkspaceName;
+  }
 
-    await this.githubUpdateIssueComment({
+  private async renderWorkspaceNameInput(): Promise<string> {
+    if (this.input.workspaceName) {
+      const problem = validateWorkspaceName(this.input.workspaceName);
+      if (problem) {
+        throw new UserFacingError(`Invalid \`workspace-name\`: ${problem}`);
+      }
+      return this.input.workspaceName;
+    }
+
+    const template = this.input.workspaceNameTemplate;
+    const used = findNameVariables(template);
+    const unknown = used.filter((name) => !isNameVariable(name));
+    if (unknown.length > 0) {
+      throw new UserFacingError(
+        `Unknown variables in \`workspace-name-template\`: ${unknown
+          .map((name) => `{${name}}`)
+          .join(", ")}. Available variables: ${WORKSPACE_NAME_VARIABLES.map(
+          (name) => `{${name}}`
+        ).join(", ")}`
+      );
+    }
+
+    const owner = this.input.githubRepoOwner;
+    const repo = this.input.githubRepoName;
+    const values: Partial<Record<WorkspaceNameVariable, string>> = {
+      owner,
+      repo,
+      number: this.input.githubIssueNumber.toString(),
+      actor: this.input.githubActor,
+    };
+    const issue =
+      used.includes("title-slug") || used.includes("branch-slug")
+        ? await this.githubGetIssue({
+            owner,
+            repo,
+            issueNumber: this.input.githubIssueNumber,
+          })
+        : undefined;
+    if (issue && used.includes("title-slug")) {
+      values["title-slug"] = issue.title;
+    }
+    if (issue && used.includes("branch-slug")) {
+      if (!issue.isPullRequest) {
+        throw new UserFacingError(
+          `The {branch-slug} variable in \`workspace-name-template\` can only be used when #${this.input.githubIssueNumber} is a pull request`
+        );
+      }
+      const pr = await this.githubGetPullRequest({
+        owner,
+        repo,
+        pullNumber: this.input.githubIssueNumber,
+      });
+      values["branch-slug"] = pr.headRef;
+    }
+
+    const missing = used.filter(
+      (name) => isNameVariable(name) && values[name] === undefined
+    );
+    if (missing.length > 0) {
+      throw new UserFacingError(
+        `\`workspace-name-template\` uses ${missing
+          .map((name) => `{${name}}`)
+          .join(", ")}, which ${
+          missing.length === 1 ? "has" : "have"
+        } no value in this run`
+      );
+    }
+    const name = renderWorkspaceName(template, values);
+    const problem = validateWorkspaceName(name);
+    if (problem) {
+      throw new UserFacingError(
+        `\`workspace-name-template\` \`${template}\` did not produce a valid name: ${problem}`
+      );
+    }
+    return name;
+  }
+
+  /**
+   * Returns the name, or the name with the lowest numeric suffix that the
+   * owner doesn't already use for a workspace
+   */
+  async coderFindFreeWorkspaceName(
+    coderUsername: string,
+    name: string
+  ): Promise<string> {
+    for (let suffix = 1; suffix <= MAX_NAME_SUFFIX; suffix++) {
+      const candidate = suffix === 1 ? name : withNameSuffix(name, suffix);
+      const existing = await this.coder.getWorkspaceByOwnerAndName(
+        coderUsername,
+        candidate
+      );
+      if (!existing) {
+        return candidate;
+      }
+      this.logger.log(`Workspace ${candidate} already exists`);
+    }
+    throw new UserFacingError(
+      `Coder user ${coderUsername} already has workspaces named ${name} to ${withNameSuffix(
+        name,
+        MAX_NAME_SUFFIX
+      )}. Please delete some of them or choose a different \`workspace-name\`.`
+    );
+  }
+
+  /**
+   * Turns Coder API errors with a known explanation into UserFacingErrors,
+   * so the explanation ends up in the status comment
+   */
+  toUserFacingError(error: unknown): unknown {
+    if (!(error instanceof CoderApiError)) {
+      return error;
+    }
+    const message = describeCoderApiError(error);
+    return message ? new UserFacingError(message, { cause: error }) : error;
+  }
+
+  /**
+   * Reads the `user-mapping` input, which is either inline YAML or the path
+   * of a YAML file in the checked out repository. Returns the mapping with
+   * lowercased keys, or undefined if the input isn't set.
+   */
+  async loadUserMapping(): Promise<Record<string, string> | undefined> {
+    if (!this.input.userMapping) {
+      return undefined;
+    }
+    const parsed = await this.loadYamlInput(
+      "user-mapping",
+      this.input.userMapping
+    );
+    const result = UserMappingSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new UserFacingError(
+        "`user-mapping` must map GitHub logins or GitHub user IDs to Coder usernames"
+      );
+    }
+    return Object.fromEntries(
+      Object.entries(result.data).map(([key, value]) => [
+        key.toLowerCase(),
+        value,
+      ])
+    );
+  }
+
+  /**
+   * Parses an input that holds YAML, or the path of a YAML file in the
+   * repository
+   */
+  private async loadYamlInput(name: string, value: string): Promise<unknown> {
+    const parsed: unknown = yaml.parse(value);
+    if (typeof parsed !== "string") {
+      return parsed;
+    }
+    let content: string;
+    try {
+      content = await fs.readFile(parsed, "utf8");
+    } catch (error) {
+      throw new UserFacingError(
+        `Failed to read the \`${name}\` file ${parsed}. Make sure the repository is checked out before this action runs.`,
+        { cause: error }
+      );
+    }
+    return yaml.parse(content);
+  }
+
+  /**
+   * Returns the first `label-routing` rule that matches the issue's labels,
+   * or undefined if no rule matches or the input isn't set
+   */
+  async resolveLabelRoute(): Promise<LabelRoute | undefined> {
+    if (!this.input.labelRouting) {
+      return undefined;
+    }
+    const parsed = await this.loadYamlInput(
+      "label-routing",
+      this.input.labelRouting
+    );
+    const result = LabelRoutingSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new UserFacingError(
+        `\`label-routing\` must be a list of rules with \`labels\`, \`template\` and \`parameters\`: ${result.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")}`
+      );
+    }
+    const labels = await this.githubGetIssueLabels({
       owner: this.input.githubRepoOwner,
       repo: this.input.githubRepoName,
-      commentId: this.input.githubStatusCommentId,
-      comment: commentBody,
+      issueNumber: this.input.githubIssueNumber,
     });
+    const match = matchLabelRoute(result.data, labels);
+    if (!match) {
+      this.logger.log(
+        `No label routing rule matched the labels: ${
+          labels.join(", ") || "none"
+        }`
+      );
+      return undefined;
+    }
+    this.labelRouteDescription = describeLabelRouteMatch(match);
+    this.logger.log(`Label routing: ${this.labelRouteDescription}`);
+    return match.route;
+  }
 
-    await this.coderStartWorkspace({
+  /**
+   * Fails early if the user mapping points at a Coder user that doesn't
+   * exist, e.g. because of a typo or a renamed user
+   */
+  async coderCheckMappedUserExists(
+    githubUsername: string,
+    coderUsername: string
+  ): Promise<void> {
+    try {
+      await this.coder.getUserID(coderUsername);
+    } catch (error) {
+      if (
+        error instanceof CoderApiError &&
+        (error.status === 400 || error.status === 404)
+      ) {
+        throw new UserFacingError(
+          `The \`user-mapping\` maps GitHub user @${githubUsername} to Coder user ${coderUsername}, which does not exist`,
+          { cause: error }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the Coder user that owns the workspace, either from the
+   * `coder-username` input or by looking up the GitHub user. The user is
+   * only resolved once per run.
+   */
+  async resolveCoderUsername(): Promise<string> {
+    this.resolvedCoderUsername ??= this.lookUpCoderUsername();
+    return this.resolvedCoderUsername;
+  }
+
+  private async lookUpCoderUsername(): Promise<string> {
+    if (this.input.coderUsername) {
+      this.logger.log(`Using Coder username ${this.input.coderUsername}`);
+      return this.input.coderUsername;
+    }
+    const githubUsername = this.input.githubUsername;
+    assert(githubUsername, "GitHub username is required");
+
+    let userId: number | undefined;
+    const mapping = await this.loadUserMapping();
+    if (mapping) {
+      if (Object.keys(mapping).some((key) => /^\d+$/.test(key))) {
+        userId = await this.githubGetUserIdFromUsername(githubUsername);
+      }
+      // IDs win over logins, since logins can be renamed
+      const mapped =
+        (userId !== undefined ? mapping[userId.toString()] : undefined) ??
+        mapping[githubUsername.toLowerCase()];
+      if (mapped) {
+        this.logger.log(
+          `GitHub user ${githubUsername} is mapped to Coder user ${mapped}`
+        );
+        await this.coderCheckMappedUserExists(githubUsername, mapped);
+        return mapped;
+      }
+      if (this.input.userMappingFallback === "fail") {
+        throw new UserFacingError(
+          `GitHub user @${githubUsername} is not in the \`user-mapping\`. Please ask a maintainer of this repository to add them.`
+        );
+      }
+      this.logger.log(
+        `GitHub user ${githubUsername} is not in the user mapping, looking them up by GitHub ID`
+      );
+    }
+
+    this.logger.log(`Getting Coder username for GitHub user ${githubUsername}`);
+    userId ??= await this.githubGetUserIdFromUsername(githubUsername);
+    const coderUsername = await this.coderUsernameByGitHubId(userId);
+    this.logger.log(
+      `Coder username for GitHub user ${this.input.githubUsername} is ${coderUsername}`
+    );
+    return coderUsername;
+  }
+
+  private async run() {
+    if (!this.input.githubUsername && !this.input.coderUsername) {
+      throw new Error("GitHub username or Coder username is required");
+    }
+    if (this.input.githubUsername && this.input.coderUsername) {
+      throw new Error(
+        "Only one of GitHub username or Coder username may be set"
+      );
+    }
+    if (this.input.mode !== "start") {
+      await this.runTeardown(this.input.mode);
+      return;
+    }
+    const route = await this.resolveLabelRoute();
+    const overrides = await this.resolveCommandOverrides();
+    this.templateName =
+      overrides.templateName ?? route?.template ?? this.input.templateName;
+    if (!this.templateName) {
+      throw new Error("Template name is required to start a workspace");
+    }
+    const parameters = {
+      ...(await this.fillParameterPlaceholders({
+        ...(this.input.workspaceParameters
+          ? this.parseParameters(this.input.workspaceParameters)
+          : {}),
+        ...route?.parameters,
+      })),
+      // Placeholders in values from the command are not filled in
+      ...overrides.parameters,
+    };
+    let workspaceName = await this.resolveWorkspaceName();
+    const coderUsername = await this.resolveCoderUsername();
+    if (this.input.ifExists === "rename") {
+      workspaceName = await this.coderFindFreeWorkspaceName(
+        coderUsername,
+        workspaceName
+      );
+      this.statusComment.identify(`${coderUsername}/${workspaceName}`);
+    }
+    this.logger.log(`Workspace name: ${workspaceName}`);
+
+    const workspaceUrl = this.createWorkspaceUrl(coderUsername, workspaceName);
+    this.logger.log(`Workspace URL: ${workspaceUrl}`);
+    this.result.coderUsername = coderUsername;
+    this.result.workspaceName = workspaceName;
+    this.result.workspaceUrl = workspaceUrl;
+    await this.completeStep("user");
+
+    const workspaceAction = await this.coderStartWorkspace({
       coderUsername,
-      templateName: this.input.templateName,
-      workspaceName: this.input.workspaceName,
+      templateName: this.templateName,
+      workspaceName,
       parameters,
     });
-    await this.githubUpdateIssueComment({
-      owner: this.input.githubRepoOwner,
-      repo: this.input.githubRepoName,
-      commentId: this.input.githubStatusCommentId,
-      comment: `✅ Coder workspace started! You can view the action logs [here](${this.input.githubWorkflowRunUrl}).\n\nWorkspace is available at: ${workspaceUrl}`,
+    if (
+      this.hasLifecycleInputs() &&
+      !this.result.plan &&
+      this.result.workspaceId
+    ) {
+      await this.coderCheckLifecycle(
+        this.result.workspaceId,
+        ["created", "recreated", "build-joined"].includes(workspaceAction)
+      );
+    }
+    if (
+      this.input.waitForAgents &&
+      !this.result.plan &&
+      this.result.workspaceId
+    ) {
+      await this.coderWaitForAgents({
+        workspaceId: this.result.workspaceId,
+        coderUsername,
+        workspaceName,
+      });
+    }
+    await this.reportWorkspaceAction(workspaceAction);
+  }
+
+  private async runTeardown(transition: "stop" | "delete") {
+    const workspaceName = await this.resolveWorkspaceName();
+    const coderUsername = await this.resolveCoderUsername();
+    this.result.coderUsername = coderUsername;
+    this.result.workspaceName = workspaceName;
+    await this.completeStep("user");
+
+    const workspaceAction = await this.coderTeardownWorkspace({
+      coderUsername,
+      workspaceName,
+      transition,
     });
+    await this.reportWorkspaceAction(workspaceAction);
+  }
+
+  /**
+   * Reports what the action did in the status comment
+   */
+  private async reportWorkspaceAction(action: WorkspaceAction): Promise<void> {
+    this.result.action = action;
+    const logs = `You can view the action logs [here](${this.input.githubWorkflowRunUrl}).`;
+    if (this.result.plan) {
+      await this.finishStatusComment(
+        "succeeded",
+        `${workspaceActionMessages.planned} This is what the action would do. ${logs}`,
+        renderPlan(this.result.plan)
+      );
+      return;
+    }
+    // Queued builds are still running when the action finishes
+    if (action !== "stop-queued" && action !== "delete-queued") {
+      for (const [step] of progressSteps[this.input.mode]) {
+        this.completedSteps.add(step);
+      }
+    }
+    await this.finishStatusComment(
+      "succeeded",
+      `${workspaceActionMessages[action]} ${logs}`,
+      this.agentWarning ? `⚠️ ${this.agentWarning}` : undefined
+    );
   }
 }
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import { renderAppLinks, workspaceAppLinks } from "./apps";
+import type { WorkspaceAgent } from "./coder";
+
+const agent = (name: string, apps: WorkspaceAgent["apps"]): WorkspaceAgent => ({
+  id: `${name}-id`,
+  name,
+  lifecycle_state: "ready",
+  display_apps: ["vscode", "web_terminal"],
+  apps,
+});
+
+describe("workspaceAppLinks", () => {
+  it("links to VS Code, the terminal and the apps", () => {
+    const links = workspaceAppLinks({
+      coderUrl: "https://coder.example.com",
+      owner: "hugo",
+      workspaceName: "issue-1",
+      agents: [
+        agent("main", [
+          { id: "code-id", slug: "code-server", display_name: "VS Code Web" },
+          { id: "task-id", slug: "agent", health: "unhealthy" },
+          { id: "docs-id", slug: "docs", external: true, url: "https://docs" },
+          { id: "hidden-id", slug: "hidden", hidden: true },
+          { id: "db-id", slug: "db", health: "disabled" },
+        ]),
+      ],
+      aiAgentAppId: "task-id",
+    });
+    expect(links).toEqual([
+      {
+        agent: "main",
+        kind: "vscode-desktop",
+        name: "VS Code Desktop",
+        url: "vscode://coder.coder-remote/open?owner=hugo&workspace=issue-1&agent=main&url=https%3A%2F%2Fcoder.example.com",
+      },
+      {
+        agent: "main",
+        kind: "terminal",
+        name: "Terminal",
+        url: "https://coder.example.com/@hugo/issue-1.main/terminal",
+      },
+      {
+        agent: "main",
+        kind: "vscode-web",
+        name: "VS Code Web",
+        url: "https://coder.example.com/@hugo/issue-1.main/apps/code-server/",
+      },
+      {
+        agent: "main",
+        kind: "ai-agent",
+        name: "agent",
+        url: "https://coder.example.com/@hugo/issue-1.main/apps/agent/",
+        health: "unhealthy",
+      },
+      { agent: "main", kind: "app", name: "docs", url: "https://docs" },
+      {
+        agent: "main",
+        kind: "app",
+        name: "db",
+        url: "https://coder.example.com/@hugo/issue-1.main/apps/db/",
+      },
+    ]);
+  });
+});
+
+describe("renderAppLinks", () => {
+  it("shows the agent only if there are several", () => {
+    const terminal = {
+      kind: "terminal" as const,
+      name: "Terminal",
+      url: "https://coder/terminal",
+    };
+    const claude = {
+      kind: "ai-agent" as const,
+      name: "Claude Code",
+      url: "https://coder/apps/claude-code/",
+      health: "healthy",
+    };
+    expect(
+      renderAppLinks([
+        {
+          agent: "main",
+          kind: "vscode-desktop",
+          name: "VS Code Desktop",
+          url: "vscode://coder.coder-remote/open",
+        },
+        { agent: "main", ...claude },
+      ])
+    ).toBe(
+      "- VS Code Desktop: `vscode://coder.coder-remote/open`\n- [Claude Code](https://coder/apps/claude-code/) (healthy)"
+    );
+    expect(
+      renderAppLinks([
+        { agent: "main", ...terminal },
+        { agent: "gpu", ...terminal },
+      ])
+    ).toBe(
+      "- main: [Terminal](https://coder/terminal)\n- gpu: [Terminal](https://coder/terminal)"
+    );
+  });
+});
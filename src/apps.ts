@@ -0,0 +1,109 @@
+import type { WorkspaceAgent } from "./coder";
+
+export type AppLinkKind =
+  | "vscode-desktop"
+  | "vscode-web"
+  | "terminal"
+  | "ai-agent"
+  | "app";
+
+/**
+ * A direct link to something running in a workspace
+ */
+export interface AppLink {
+  agent: string;
+  kind: AppLinkKind;
+  name: string;
+  url: string;
+  /** Set for apps that Coder health-checks */
+  health?: string;
+}
+
+const VSCODE_WEB_SLUG_REGEX = /^(code-server|vscode-web)$/;
+
+/**
+ * Slugs of the Coder modules for AI agents, for templates that don't mark
+ * their AI agent app
+ */
+const AI_AGENT_SLUG_REGEX = /claude|aider|goose|codex|amazon-q|gemini/i;
+
+/**
+ * Builds the links to the agents' apps, the web terminal and VS Code
+ * Desktop. Apps are linked by path, which works without a wildcard access
+ * URL.
+ */
+export const workspaceAppLinks = (args: {
+  coderUrl: string;
+  owner: string;
+  workspaceName: string;
+  agents: WorkspaceAgent[];
+  aiAgentAppId?: string | null;
+}): AppLink[] =>
+  args.agents.flatMap((agent) => {
+    const base = `${args.coderUrl}/@${args.owner}/${args.workspaceName}.${agent.name}`;
+    // Coder versions without display apps show all of them
+    const displayApps = agent.display_apps ?? ["vscode", "web_terminal"];
+    const links: AppLink[] = [];
+    if (displayApps.includes("vscode")) {
+      const query = new URLSearchParams({
+        owner: args.owner,
+        workspace: args.workspaceName,
+        agent: agent.name,
+        url: args.coderUrl,
+      });
+      links.push({
+        agent: agent.name,
+        kind: "vscode-desktop",
+        name: "VS Code Desktop",
+        url: `vscode://coder.coder-remote/open?${query}`,
+      });
+    }
+    if (displayApps.includes("web_terminal")) {
+      links.push({
+        agent: agent.name,
+        kind: "terminal",
+        name: "Terminal",
+        url: `${base}/terminal`,
+      });
+    }
+    for (const app of agent.apps ?? []) {
+      const url = app.external ? app.url : `${base}/apps/${app.slug}/`;
+      if (app.hidden || !url) {
+        continue;
+      }
+      const kind: AppLinkKind =
+        app.id === args.aiAgentAppId || AI_AGENT_SLUG_REGEX.test(app.slug)
+          ? "ai-agent"
+          : VSCODE_WEB_SLUG_REGEX.test(app.slug)
+          ? "vscode-web"
+          : "app";
+      links.push({
+        agent: agent.name,
+        kind,
+        name: app.display_name || app.slug,
+        url,
+        health:
+          app.health && app.health !== "disabled" ? app.health : undefined,
+      });
+    }
+    return links;
+  });
+
+/**
+ * Renders the links as a Markdown list. GitHub doesn't link `vscode://`
+ * URLs, so VS Code Desktop is shown as code to copy.
+ */
+export const renderAppLinks = (links: AppLink[]): string => {
+  const showAgent = new Set(links.map((link) => link.agent)).size > 1;
+  return links
+    .map((link) => {
+      const target =
+        link.kind === "vscode-desktop"
+          ? `${link.name}: \`${link.url}\``
+          : `[${link.name}](${link.url})`;
+      return `- ${showAgent ? `${link.agent}: ` : ""}${target}${
+        link.health ? ` (${link.health})` : ""
+      }`;
+    })
+    .join("\n");
+};
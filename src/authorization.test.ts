@@ -0,0 +1,31 @@
+import { describe, expect, it } from "bun:test";
+import { meetsPermission, parseList, parseTeam } from "./authorization";
+
+describe("meetsPermission", () => {
+  it("orders roles from none to admin", () => {
+    expect(meetsPermission("admin", "write")).toBe(true);
+    expect(meetsPermission("write", "write")).toBe(true);
+    expect(meetsPermission("triage", "write")).toBe(false);
+    expect(meetsPermission("none", "read")).toBe(false);
+    expect(meetsPermission("none", "none")).toBe(true);
+  });
+});
+
+describe("parseList", () => {
+  it("splits on commas and newlines", () => {
+    expect(parseList("alice, @bob\ncarol,\n\n")).toEqual([
+      "alice",
+      "bob",
+      "carol",
+    ]);
+    expect(parseList(undefined)).toEqual([]);
+  });
+});
+
+describe("parseTeam", () => {
+  it("parses org/team-slug entries", () => {
+    expect(parseTeam("coder/devs")).toEqual({ org: "coder", teamSlug: "devs" });
+    expect(parseTeam("devs")).toBeUndefined();
+    expect(parseTeam("coder/devs/extra")).toBeUndefined();
+  });
+});
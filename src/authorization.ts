@@ -0,0 +1,49 @@
+/**
+ * Repository roles, from least to most privileged. `none` lets anyone
+ * through.
+ */
+export const REPO_PERMISSIONS = [
+  "none",
+  "read",
+  "triage",
+  "write",
+  "maintain",
+  "admin",
+] as const;
+
+export type RepoPermission = (typeof REPO_PERMISSIONS)[number];
+
+export const isRepoPermission = (value: string): value is RepoPermission =>
+  (REPO_PERMISSIONS as readonly string[]).includes(value);
+
+/**
+ * Returns true if `actual` grants at least what `required` grants
+ */
+export const meetsPermission = (
+  actual: RepoPermission,
+  required: RepoPermission
+): boolean =>
+  REPO_PERMISSIONS.indexOf(actual) >= REPO_PERMISSIONS.indexOf(required);
+
+/**
+ * Splits a list input on commas and newlines, dropping empty entries and a
+ * leading `@` from usernames and teams
+ */
+export const parseList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(/[,\n]/)
+    .map((entry) => entry.trim().replace(/^@/, ""))
+    .filter((entry) => entry.length > 0);
+
+/**
+ * Parses an `org/team-slug` entry of the `allowed-teams` input
+ */
+export const parseTeam = (
+  entry: string
+): { org: string; teamSlug: string } | undefined => {
+  const match = /^([^/\s]+)\/([^/\s]+)$/.exec(entry);
+  if (!match || !match[1] || !match[2]) {
+    return undefined;
+  }
+  return { org: match[1], teamSlug: match[2] };
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "bun:test";
+import { BuildLogTail } from "./build-logs";
+
+const newLog = (id: number, output: string) => ({
+  id,
+  created_at: "2025-01-01T00:00:00Z",
+  log_level: "info",
+  stage: "Starting workspace",
+  output,
+});
+
+describe("BuildLogTail", () => {
+  it("keeps the last lines", () => {
+    const tail = new BuildLogTail(2);
+    expect(tail.push(newLog(1, "one"))).toBe(true);
+    expect(tail.push(newLog(2, "two"))).toBe(false);
+    tail.push(newLog(3, "```three```"));
+    expect(tail.render()).toBe(
+      "<details><summary>Build logs (stage: Starting workspace)</summary>\n\n```\ntwo\n'''three'''\n```\n\n</details>"
+    );
+  });
+
+  it("stays well below GitHub's comment size limit", () => {
+    const tail = new BuildLogTail(1000);
+    for (let id = 0; id < 1000; id++) {
+      tail.push(newLog(id, `${id} ${"x".repeat(10_000)}`));
+    }
+    const rendered = tail.render();
+    expect(rendered.length).toBeLessThan(25_000);
+    expect(rendered).toContain(`999 ${"x".repeat(496)}…`);
+    expect(rendered).not.toContain("x".repeat(501));
+  });
+});
@@ -0,0 +1,59 @@
+import type { ProvisionerJobLog } from "./coder";
+
+/**
+ * Limits that keep the status comment well below GitHub's limit of 65,536
+ * characters per comment
+ */
+const MAX_LINE_LENGTH = 500;
+const MAX_OUTPUT_LENGTH = 20_000;
+
+/**
+ * Keeps the last lines of a workspace build's logs, along with the stage the
+ * build is currently in, so they can be shown in the status comment.
+ */
+export class BuildLogTail {
+  private readonly lines: string[] = [];
+  private stage: string | undefined;
+
+  constructor(private readonly maxLines: number) {}
+
+  /**
+   * Adds a log line. Returns true if the line starts a new stage.
+   */
+  push(log: ProvisionerJobLog): boolean {
+    const isNewStage = log.stage !== this.stage;
+    this.stage = log.stage;
+    this.lines.push(
+      log.output.length > MAX_LINE_LENGTH
+        ? `${log.output.slice(0, MAX_LINE_LENGTH)}…`
+        : log.output
+    );
+    if (this.lines.length > this.maxLines) {
+      this.lines.splice(0, this.lines.length - this.maxLines);
+    }
+    return isNewStage;
+  }
+
+  get isEmpty(): boolean {
+    return this.lines.length === 0;
+  }
+
+  /**
+   * Renders the tail as a collapsed `<details>` block. The oldest lines are
+   * left out if the tail is too long for the status comment.
+   */
+  render(): string {
+    const summary = this.stage
+      ? `Build logs (stage: ${this.stage})`
+      : "Build logs";
+    let start = 0;
+    let length = this.lines.reduce((sum, line) => sum + line.length + 1, 0);
+    while (length > MAX_OUTPUT_LENGTH && start < this.lines.length - 1) {
+      length -= (this.lines[start]?.length ?? 0) + 1;
+      start++;
+    }
+    // Keep log output from closing the code fence early
+    const output = this.lines.slice(start).join("\n").replaceAll("```", "'''");
+    return `<details><summary>${summary}</summary>\n\n\`\`\`\n${output}\n\`\`\`\n\n</details>`;
+  }
+}
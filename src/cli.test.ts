@@ -0,0 +1,114 @@
+import { describe, expect, it } from "bun:test";
+import { UserFacingError } from "./action";
+import { parseCliArgs, terminalCommentApi } from "./cli";
+
+describe("parseCliArgs", () => {
+  it("builds the action input from flags and the environment", () => {
+    const options = parseCliArgs(
+      [
+        "--coder-url",
+        "https://coder.example.com/",
+        "--coder-username",
+        "hugo",
+        "--template-name",
+        "ubuntu",
+        "--github-repo-owner",
+        "coder",
+        "--github-repo-name",
+        "coder",
+        "--github-issue-number",
+        "42",
+        "--parameters",
+        "region: eu",
+        "--no-comment",
+      ],
+      { CODER_SESSION_TOKEN: "coder-token", GITHUB_TOKEN: "" }
+    );
+    expect(options?.noComment).toBe(true);
+    expect(options?.noGitHub).toBe(false);
+    expect(options?.input).toMatchObject({
+      coderUrl: "https://coder.example.com",
+      coderToken: "coder-token",
+      coderUsername: "hugo",
+      templateName: "ubuntu",
+      workspaceParameters: "region: eu",
+      githubIssueNumber: 42,
+      githubUrl: "https://api.github.com",
+      githubWorkflowRunUrl: "https://github.com/coder/coder/actions",
+      requiredPermission: "write",
+    });
+    expect(options?.input.githubToken).toBeUndefined();
+  });
+
+  it("reads the actor from the environment with --no-comment", () => {
+    const options = parseCliArgs(
+      [
+        "--no-comment",
+        "--coder-url",
+        "https://coder.example.com",
+        "--github-repo-owner",
+        "coder",
+        "--github-repo-name",
+        "coder",
+        "--github-issue-number",
+        "42",
+      ],
+      {
+        CODER_SESSION_TOKEN: "coder-token",
+        GITHUB_TOKEN: "github-token",
+        GITHUB_ACTOR: "octocat",
+      }
+    );
+    expect(options?.noComment).toBe(true);
+    expect(options?.noGitHub).toBe(false);
+    expect(options?.input).toMatchObject({
+      githubActor: "octocat",
+      githubToken: "github-token",
+      requiredPermission: "write",
+    });
+  });
+
+  it("fills in GitHub inputs without GitHub", () => {
+    const options = parseCliArgs(
+      ["--no-github", "--coder-url", "http://localhost:3000"],
+      { CODER_SESSION_TOKEN: "coder-token" }
+    );
+    expect(options?.noComment).toBe(true);
+    expect(options?.input).toMatchObject({
+      githubRepoOwner: "local",
+      githubRepoName: "local",
+      githubIssueNumber: 0,
+      requiredPermission: "none",
+    });
+  });
+
+  it("reports missing and invalid inputs by their flags", () => {
+    expect(() => parseCliArgs(["--mode", "pause"], {})).toThrow(
+      UserFacingError
+    );
+    expect(() => parseCliArgs(["--mode", "pause"], {})).toThrow(
+      "  --coder-url: Required\n"
+    );
+    expect(() => parseCliArgs(["--unknown"], {})).toThrow();
+  });
+
+  it("returns undefined for --help", () => {
+    expect(parseCliArgs(["--help"], {})).toBeUndefined();
+  });
+});
+
+describe("terminalCommentApi", () => {
+  it("prints updates unless only the build logs changed", async () => {
+    const printed: string[] = [];
+    const api = terminalCommentApi((message) => printed.push(message));
+    await api.createComment("Starting");
+    await api.updateComment(0, "Starting\n\n<details>logs 1</details>");
+    await api.updateComment(0, "Starting\n\n<details>logs 2</details>");
+    await api.updateComment(0, "✅ Started");
+    expect(printed).toEqual([
+      "[status comment]\nStarting\n",
+      "[status comment]\n✅ Started\n",
+    ]);
+    expect(await api.getCommentBody(0)).toBe("✅ Started");
+  });
+});
@@ -0,0 +1,207 @@
+import { parseArgs } from "util";
+import {
+  ActionInputSchema,
+  describeInputIssues,
+  INPUT_NAMES,
+  StartWorkspaceAction,
+  UserFacingError,
+  type ActionInput,
+} from "./action";
+import { resultOutputs } from "./outputs";
+import type { IssueCommentApi } from "./status-comment";
+
+/**
+ * Environment variables used for flags that aren't given, named like the
+ * ones the Coder and GitHub CLIs and GitHub Actions use, so tokens stay out
+ * of the shell history. GITHUB_ACTOR is the user whose role
+ * required-permission checks.
+ */
+const envFallbacks: Partial<Record<keyof ActionInput, string>> = {
+  coderUrl: "CODER_URL",
+  coderToken: "CODER_SESSION_TOKEN",
+  githubToken: "GITHUB_TOKEN",
+  githubActor: "GITHUB_ACTOR",
+};
+
+/**
+ * Values for inputs that the composite step always sets, but that are
+ * tedious to pass by hand
+ */
+const defaults = (
+  values: Partial<Record<keyof ActionInput, string>>,
+  noGitHub: boolean
+): Partial<Record<keyof ActionInput, string>> => {
+  const owner = values.githubRepoOwner ?? (noGitHub ? "local" : undefined);
+  const repo = values.githubRepoName ?? (noGitHub ? "local" : undefined);
+  return {
+    githubRepoOwner: owner,
+    githubRepoName: repo,
+    githubUrl: "https://api.github.com",
+    githubWorkflowRunUrl:
+      owner && repo ? `https://github.com/${owner}/${repo}/actions` : undefined,
+    githubIssueNumber: noGitHub ? "0" : undefined,
+    // Without GitHub, the triggering user's role can't be checked
+    requiredPermission: noGitHub ? "none" : undefined,
+  };
+};
+
+export const usage = `Usage: bun src/cli.ts [options]
+
+Runs the action from a terminal, e.g. to debug user mapping, templates and
+parameters against a Coder deployment or a mock server.
+
+Options:
+  --help          Show this help
+  --no-comment    Print status comment updates instead of posting them
+  --no-github     Don't call GitHub at all. Implies --no-comment. Inputs that
+                  need GitHub, such as github-username or {{ issue.title }},
+                  fail
+
+Inputs, see action.yml for their descriptions:
+${Object.values(INPUT_NAMES)
+  .map((flag) => `  --${flag}`)
+  .join("\n")}
+
+CODER_URL, CODER_SESSION_TOKEN, GITHUB_TOKEN and GITHUB_ACTOR are used for
+--coder-url, --coder-token, --github-token and --github-actor if those aren't
+given. Unless --no-github is given, --github-actor must be a user with the
+required-permission role.`;
+
+export interface CliOptions {
+  input: ActionInput;
+  noComment: boolean;
+  noGitHub: boolean;
+}
+
+/**
+ * Parses the command line into the action input. Returns undefined if
+ * --help was given.
+ */
+export const parseCliArgs = (
+  args: string[],
+  env: Record<string, string | undefined>
+): CliOptions | undefined => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      help: { type: "boolean" },
+      "no-comment": { type: "boolean" },
+      "no-github": { type: "boolean" },
+      ...Object.fromEntries(
+        Object.values(INPUT_NAMES).map((flag) => [
+          flag,
+          { type: "string" as const },
+        ])
+      ),
+    },
+    strict: true,
+  });
+  if (values.help) {
+    return undefined;
+  }
+  const noGitHub = values["no-github"] === true;
+
+  const flagValues: Record<string, string | boolean | undefined> = values;
+  const given: Partial<Record<keyof ActionInput, string>> = {};
+  for (const [key, flag] of Object.entries(INPUT_NAMES)) {
+    const envName = envFallbacks[key as keyof ActionInput];
+    const value = flagValues[flag] ?? (envName ? env[envName] : undefined);
+    if (typeof value === "string" && value !== "") {
+      given[key as keyof ActionInput] = value;
+    }
+  }
+  const parsed = ActionInputSchema.safeParse({
+    ...defaults(given, noGitHub),
+    ...given,
+  });
+  if (!parsed.success) {
+    throw new UserFacingError(
+      `Invalid options:\n${describeInputIssues(
+        parsed.error,
+        (name) => `  --${name}`
+      )}\nRun with --help to see all options.`
+    );
+  }
+  return {
+    input: parsed.data,
+    noComment: noGitHub || values["no-comment"] === true,
+    noGitHub,
+  };
+};
+
+/**
+ * Prints the status comment instead of posting it. Updates that only
+ * change the build logs in the comment are skipped, since the logs are
+ * printed anyway.
+ */
+export const terminalCommentApi = (
+  print: (message: string) => void
+): IssueCommentApi => {
+  let body = "";
+  const show = (comment: string) => {
+    const withoutLogs = (text: string) =>
+      text.replace(/<details>[\s\S]*<\/details>/, "").trim();
+    if (withoutLogs(comment) !== withoutLogs(body)) {
+      print(`[status comment]\n${comment}\n`);
+    }
+    body = comment;
+  };
+  return {
+    createComment: async (comment) => {
+      show(comment);
+      return 0;
+    },
+    updateComment: async (_commentId, comment) => {
+      show(comment);
+    },
+    getCommentBody: async () => body,
+    findComment: async () => undefined,
+  };
+};
+
+const main = async () => {
+  const options = parseCliArgs(process.argv.slice(2), process.env);
+  if (!options) {
+    console.log(usage);
+    return;
+  }
+  const action = new StartWorkspaceAction(console, options.input, {
+    commentApi: options.noComment
+      ? terminalCommentApi((message) => console.log(message))
+      : undefined,
+    disableGitHub: options.noGitHub,
+  });
+
+  process.once("SIGINT", async () => {
+    try {
+      await action.cancel();
+    } catch (error) {
+      console.error(error);
+    }
+    process.exit(130);
+  });
+
+  try {
+    await action.execute();
+  } finally {
+    const outputs = Object.entries(resultOutputs(action.actionResult));
+    if (outputs.length > 0) {
+      console.log(
+        `\nOutputs:\n${outputs
+          .map(([name, value]) => `  ${name}: ${value}`)
+          .join("\n")}`
+      );
+    }
+  }
+};
+
+if (import.meta.main) {
+  try {
+    await main();
+  } catch (error) {
+    console.error(
+      error instanceof UserFacingError ? `Error: ${error.message}` : error
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import { CoderApiError } from "./coder";
+import { describeCoderApiError } from "./coder-errors";
+
+const newError = (args: ConstructorParameters<typeof CoderApiError>[1]) =>
+  new CoderApiError("Failed", args);
+
+describe("describeCoderApiError", () => {
+  it("explains that querying by GitHub ID needs a newer Coder", () => {
+    expect(
+      describeCoderApiError(
+        newError({
+          status: 400,
+          endpoint: "/api/v2/users?q=github_com_user_id:123",
+          apiMessage: "Invalid user search query.",
+          validations: [
+            {
+              field: "github_com_user_id",
+              detail:
+                'Query param "github_com_user_id" is not a valid query param',
+            },
+          ],
+        })
+      )
+    ).toContain("requires Coder 2.21 or later");
+  });
+
+  it("explains invalid tokens", () => {
+    expect(
+      describeCoderApiError(
+        newError({
+          status: 401,
+          endpoint: "/api/v2/users/hugo",
+          apiMessage: "API key expired.",
+        })
+      )
+    ).toEqual(
+      "Coder rejected the API token (API key expired.). It may be invalid or expired. Please update the token passed to the `coder-token` input."
+    );
+  });
+
+  it("explains taken names and exceeded quotas", () => {
+    expect(
+      describeCoderApiError(
+        newError({
+          status: 409,
+          endpoint: "/api/v2/users/user-id/workspaces",
+          apiMessage: 'Workspace "issue-1" already exists.',
+        })
+      )
+    ).toEqual(
+      'A workspace with this name already exists (Workspace "issue-1" already exists.). Please choose a different `workspace-name`, or set `if-exists` to reuse the existing workspace.'
+    );
+    expect(
+      describeCoderApiError(
+        newError({
+          status: 403,
+          endpoint: "/api/v2/users/user-id/workspaces",
+          apiMessage: "Insufficient quota.",
+        })
+      )
+    ).toStartWith("The Coder user has exceeded their workspace quota");
+  });
+
+  it("explains missing templates", () => {
+    expect(
+      describeCoderApiError(
+        newError({
+          status: 404,
+          endpoint: "/api/v2/templateversions/version-id/rich-parameters",
+          apiMessage:
+            "Resource not found or you do not have access to this resource",
+        })
+      )
+    ).toEqual(
+      "Coder template not found (Resource not found or you do not have access to this resource). Please check the `template-name` input and that the Coder user can use the template."
+    );
+  });
+
+  it("lists rejected parameters", () => {
+    expect(
+      describeCoderApiError(
+        newError({
+          status: 400,
+          endpoint: "/api/v2/workspaces/workspace-id/builds",
+          apiMessage: "Unable to validate parameters.",
+          validations: [{ field: "cpu", detail: "Value must be at most 8" }],
+        })
+      )
+    ).toEqual(
+      "Coder rejected the workspace parameters: Unable to validate parameters.\n- `cpu`: Value must be at most 8"
+    );
+  });
+
+  it("leaves other errors alone", () => {
+    expect(
+      describeCoderApiError(
+        newError({ status: 500, endpoint: "/api/v2/workspaces/workspace-id" })
+      )
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+import type { CoderApiError } from "./coder";
+
+const coderReason = (error: CoderApiError): string =>
+  [error.apiMessage, error.detail]
+    .filter((part) => part)
+    .join(" ")
+    .trim();
+
+const mentions = (error: CoderApiError, pattern: RegExp): boolean =>
+  [
+    error.apiMessage,
+    error.detail,
+    ...error.validations.flatMap((v) => [v.field, v.detail]),
+  ].some((text) => text !== undefined && pattern.test(text));
+
+const isWorkspaceBuildRequest = (error: CoderApiError): boolean =>
+  /\/workspaces(\/[^/]+\/builds)?$/.test(error.endpoint);
+
+/**
+ * Returns true if Coder rejected a workspace because its name is taken
+ */
+export const isNameConflictError = (error: CoderApiError): boolean =>
+  error.status === 409 ||
+  error.validations.some(
+    (v) => v.field === "name" && /already in use/i.test(v.detail)
+  );
+
+/**
+ * Explains known Coder API errors in terms of the action's inputs.
+ * Returns undefined for errors without a better explanation than the
+ * raw response.
+ */
+export const describeCoderApiError = (
+  error: CoderApiError
+): string | undefined => {
+  const reason = coderReason(error);
+  if (mentions(error, /github_com_user_id/)) {
+    return "Looking up Coder users by their GitHub ID requires Coder 2.21 or later. Please upgrade Coder or set the `coder-username` input instead.";
+  }
+  if (error.status === 401) {
+    return `Coder rejected the API token${
+      reason ? ` (${reason})` : ""
+    }. It may be invalid or expired. Please update the token passed to the \`coder-token\` input.`;
+  }
+  if (mentions(error, /quota/i)) {
+    return `The Coder user has exceeded their workspace quota${
+      reason ? ` (${reason})` : ""
+    }. Please stop or delete workspaces that are no longer needed, or ask a Coder administrator to raise the quota.`;
+  }
+  if (isNameConflictError(error)) {
+    return `A workspace with this name already exists${
+      reason ? ` (${reason})` : ""
+    }. Please choose a different \`workspace-name\`, or set \`if-exists\` to reuse the existing workspace.`;
+  }
+  if (
+    error.status === 404 &&
+    /^\/api\/v2\/(templates|templateversions)\b/.test(error.endpoint)
+  ) {
+    return `Coder template not found${
+      reason ? ` (${reason})` : ""
+    }. Please check the \`template-name\` input and that the Coder user can use the template.`;
+  }
+  if (
+    error.status === 400 &&
+    isWorkspaceBuildRequest(error) &&
+    (error.validations.length > 0 || mentions(error, /parameter/i))
+  ) {
+    return [
+      `Coder rejected the workspace parameters${reason ? `: ${reason}` : "."}`,
+      ...error.validations.map((v) => `- \`${v.field}\`: ${v.detail}`),
+    ].join("\n");
+  }
+  return undefined;
+};
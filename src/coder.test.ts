@@ -0,0 +1,320 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { Server } from "bun";
+import {
+  CoderApiError,
+  CoderClient,
+  CoderNetworkError,
+  workspaceAgents,
+} from "./coder";
+
+type Handler = (request: Request) => Response | Promise<Response>;
+
+let server: Server<undefined> | undefined;
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+/**
+ * Starts a fake Coder server that answers requests with the given handlers,
+ * in order. Returns a client for it and the requests it received.
+ */
+const newClient = (handlers: Handler[]) => {
+  const requests: string[] = [];
+  server = Bun.serve({
+    port: 0,
+    fetch: (request) => {
+      const url = new URL(request.url);
+      requests.push(`${request.method} ${url.pathname}`);
+      const handler = handlers.shift();
+      if (!handler) {
+        return new Response("unexpected request", { status: 500 });
+      }
+      return handler(request);
+    },
+  });
+  const client = new CoderClient(
+    `http://localhost:${server.port}`,
+    "coder-token",
+    { requestTimeoutMs: 200, maxAttempts: 3, retryBaseDelayMs: 1 }
+  );
+  return { client, requests };
+};
+
+const user = () => Response.json({ id: "user-id" });
+
+describe("CoderClient requests", () => {
+  it("retries GET requests after 5xx and 429 responses", async () => {
+    const { client, requests } = newClient([
+      () => new Response("bad gateway", { status: 502 }),
+      () =>
+        new Response("slow down", {
+          status: 429,
+          headers: { "Retry-After": "0" },
+        }),
+      user,
+    ]);
+
+    expect(await client.getUserID("hugo")).toBe("user-id");
+    expect(requests).toHaveLength(3);
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const { client, requests } = newClient([
+      () => new Response("unavailable", { status: 503 }),
+      () => new Response("unavailable", { status: 503 }),
+      () => new Response("unavailable", { status: 503 }),
+    ]);
+
+    await expect(client.getUserID("hugo")).rejects.toThrow(
+      "Failed to get Coder user, status code: 503, body: unavailable"
+    );
+    expect(requests).toHaveLength(3);
+  });
+
+  it("does not retry other errors", async () => {
+    const { client, requests } = newClient([
+      () => new Response("not found", { status: 404 }),
+    ]);
+
+    await expect(client.getUserID("hugo")).rejects.toThrow(
+      "Failed to get Coder user, status code: 404, body: not found"
+    );
+    expect(requests).toHaveLength(1);
+  });
+
+  it("parses Coder error responses", async () => {
+    const { client } = newClient([
+      () =>
+        Response.json(
+          {
+            message: "Invalid user search query.",
+            validations: [{ field: "q", detail: "Bad query" }],
+          },
+          { status: 400 }
+        ),
+    ]);
+
+    const error = await client.getCoderUsersByGitHubId("123").catch((e) => e);
+    expect(error).toBeInstanceOf(CoderApiError);
+    expect(error.status).toBe(400);
+    expect(error.endpoint).toBe("/api/v2/users?q=github_com_user_id:123");
+    expect(error.apiMessage).toBe("Invalid user search query.");
+    expect(error.validations).toEqual([{ field: "q", detail: "Bad query" }]);
+  });
+
+  it("times out hung requests", async () => {
+    const hang = () => new Promise<Response>(() => {});
+    const { client, requests } = newClient([hang, hang, hang]);
+
+    const error = await client.getUserID("hugo").catch((e) => e);
+    expect(error).toBeInstanceOf(CoderNetworkError);
+    expect(error.message).toBe("GET /api/v2/users/hugo timed out after 200ms");
+    expect(requests).toHaveLength(3);
+  });
+
+  it("does not create a workspace twice when the outcome is unknown", async () => {
+    const { client, requests } = newClient([
+      () => new Response("bad gateway", { status: 502 }),
+      () =>
+        Response.json({
+          id: "workspace-id",
+          name: "issue-1",
+          latest_build: {
+            id: "build-id",
+            build_number: 1,
+            transition: "start",
+            job: { status: "running" },
+          },
+        }),
+    ]);
+
+    expect(
+      await client.createWorkspace({
+        ownerID: "user-id",
+        templateID: "template-id",
+        workspaceName: "issue-1",
+        parameters: {},
+      })
+    ).toBe("workspace-id");
+    expect(requests).toEqual([
+      "POST /api/v2/users/user-id/workspaces",
+      "GET /api/v2/users/user-id/workspace/issue-1",
+    ]);
+  });
+
+  it("creates workspaces from a pinned template version with lifecycle settings", async () => {
+    let body: unknown;
+    const { client } = newClient([
+      async (request) => {
+        body = await request.json();
+        return Response.json({ id: "workspace-id" });
+      },
+    ]);
+
+    await client.createWorkspace({
+      ownerID: "user-id",
+      templateID: "template-id",
+      templateVersionID: "version-id",
+      presetID: "preset-id",
+      workspaceName: "issue-1",
+      parameters: { cpu: "4" },
+      ttlMs: 4 * 60 * 60 * 1000,
+      autostartSchedule: "CRON_TZ=Europe/Berlin 30 9 * * 1-5",
+      automaticUpdates: "always",
+    });
+    expect(body).toEqual({
+      template_version_id: "version-id",
+      template_version_preset_id: "preset-id",
+      name: "issue-1",
+      ttl_ms: 14400000,
+      autostart_schedule: "CRON_TZ=Europe/Berlin 30 9 * * 1-5",
+      automatic_updates: "always",
+      rich_parameter_values: [{ name: "cpu", value: "4" }],
+    });
+  });
+
+  it("waits for workspace agents to finish starting", async () => {
+    const workspace = (lifecycleState: string) =>
+      Response.json({
+        id: "workspace-id",
+        name: "issue-1",
+        latest_build: {
+          id: "build-id",
+          build_number: 1,
+          transition: "start",
+          job: { status: "succeeded" },
+          resources: [
+            { agents: null },
+            {
+              agents: [
+                {
+                  id: "agent-id",
+                  name: "main",
+                  lifecycle_state: lifecycleState,
+                  apps: [
+                    { id: "app-id", slug: "code-server", health: "healthy" },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      });
+    const { client, requests } = newClient([
+      () => workspace("created"),
+      () => workspace("starting"),
+      () => workspace("ready"),
+    ]);
+
+    const result = await client.waitForAgents("workspace-id", {
+      timeoutMs: 5000,
+      pollIntervalMs: 1,
+    });
+    expect(workspaceAgents(result.latest_build)).toMatchObject([
+      {
+        name: "main",
+        lifecycle_state: "ready",
+        apps: [{ slug: "code-server" }],
+      },
+    ]);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("follows the build logs until the latest build is done", async () => {
+    const workspace = (buildID: string, status: string) => () =>
+      Response.json({
+        id: "workspace-id",
+        name: "issue-1",
+        latest_build: {
+          id: buildID,
+          build_number: 1,
+          transition: "start",
+          job: { status },
+          resources: [],
+        },
+      });
+    const logs =
+      (...ids: number[]) =>
+      (request: Request) => {
+        queries.push(new URL(request.url).search);
+        return Response.json(
+          ids.map((id) => ({
+            id,
+            created_at: "2024-01-01T00:00:00Z",
+            log_level: "info",
+            stage: "Planning",
+            output: `line ${id}`,
+          }))
+        );
+      };
+    const queries: string[] = [];
+    const { client } = newClient([
+      workspace("stop-build", "running"),
+      logs(1, 2),
+      workspace("stop-build", "running"),
+      logs(),
+      workspace("start-build", "running"),
+      logs(3),
+      workspace("start-build", "succeeded"),
+      logs(4),
+    ]);
+
+    const lines: string[] = [];
+    const build = await client.followLatestBuildLogs(
+      "workspace-id",
+      (log) => {
+        lines.push(log.output);
+      },
+      { timeoutMs: 5000, pollIntervalMs: 1 }
+    );
+    expect(build).toMatchObject({
+      id: "start-build",
+      job: { status: "succeeded" },
+    });
+    expect(lines).toEqual(["line 1", "line 2", "line 3", "line 4"]);
+    expect(queries).toEqual(["", "?after=2", "", "?after=3"]);
+  });
+
+  it("parses template version presets", async () => {
+    const { client } = newClient([
+      () =>
+        Response.json([
+          {
+            ID: "preset-id",
+            Name: "large",
+            Parameters: [{ Name: "cpu", Value: "8" }],
+          },
+          { ID: "empty-id", Name: "empty", Parameters: null },
+        ]),
+    ]);
+
+    expect(await client.getTemplateVersionPresets("version-id")).toEqual([
+      { id: "preset-id", name: "large", parameters: { cpu: "8" } },
+      { id: "empty-id", name: "empty", parameters: {} },
+    ]);
+  });
+
+  it("retries creating a workspace that wasn't created", async () => {
+    const { client, requests } = newClient([
+      () => new Response("bad gateway", { status: 502 }),
+      () => new Response("not found", { status: 404 }),
+      () => Response.json({ id: "workspace-id" }),
+    ]);
+
+    expect(
+      await client.createWorkspace({
+        ownerID: "user-id",
+        templateID: "template-id",
+        workspaceName: "issue-1",
+        parameters: {},
+      })
+    ).toBe("workspace-id");
+    expect(requests).toEqual([
+      "POST /api/v2/users/user-id/workspaces",
+      "GET /api/v2/users/user-id/workspace/issue-1",
+      "POST /api/v2/users/user-id/workspaces",
+    ]);
+  });
+});
@@ -1,18 +1,193 @@
-import { fetch } from "undici";
+import { fetch, type Response } from "undici";
 import { z } from "zod";
+import { sleep } from "./utils";
 
 const TemplateSchema = z.object({
   id: z.string(),
   name: z.string(),
   active_version_id: z.string(),
+  organization_id: z.string(),
+  organization_name: z.string().optional(),
 });
 
+export type Template = z.infer<typeof TemplateSchema>;
+
 const TemplatesResponseSchema = z.array(TemplateSchema);
 
+const TemplateVersionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export type TemplateVersion = z.infer<typeof TemplateVersionSchema>;
+
+// Coder sends presets with Go's default field names
+const TemplateVersionPresetSchema = z
+  .object({
+    ID: z.string(),
+    Name: z.string(),
+    Parameters: z
+      .array(z.object({ Name: z.string(), Value: z.string() }))
+      .nullable(),
+  })
+  .transform((preset) => ({
+    id: preset.ID,
+    name: preset.Name,
+    parameters: Object.fromEntries(
+      (preset.Parameters ?? []).map((p) => [p.Name, p.Value])
+    ),
+  }));
+
+export type TemplateVersionPreset = z.infer<typeof TemplateVersionPresetSchema>;
+
+const TemplateVersionPresetsResponseSchema = z
+  .array(TemplateVersionPresetSchema)
+  .nullable()
+  .transform((presets) => presets ?? []);
+
+const OrganizationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export type Organization = z.infer<typeof OrganizationSchema>;
+
+const OrganizationsResponseSchema = z.array(OrganizationSchema);
+
 const WorkspaceResponseSchema = z.object({
   id: z.string(),
 });
 
+const ProvisionerJobStatusSchema = z.enum([
+  "pending",
+  "running",
+  "succeeded",
+  "canceling",
+  "canceled",
+  "failed",
+  "unknown",
+]);
+
+export type ProvisionerJobStatus = z.infer<typeof ProvisionerJobStatusSchema>;
+
+const WorkspaceTransitionSchema = z.enum(["start", "stop", "delete"]);
+
+export type WorkspaceTransition = z.infer<typeof WorkspaceTransitionSchema>;
+
+const WorkspaceAppSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  display_name: z.string().optional(),
+  url: z.string().optional(),
+  external: z.boolean().optional(),
+  health: z.string().optional(),
+  hidden: z.boolean().optional(),
+});
+
+export type WorkspaceApp = z.infer<typeof WorkspaceAppSchema>;
+
+const WorkspaceAgentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  lifecycle_state: z.string(),
+  apps: z.array(WorkspaceAppSchema).nullish(),
+  display_apps: z.array(z.string()).nullish(),
+});
+
+export type WorkspaceAgent = z.infer<typeof WorkspaceAgentSchema>;
+
+const WorkspaceBuildSchema = z.object({
+  id: z.string(),
+  build_number: z.number(),
+  transition: WorkspaceTransitionSchema,
+  job: z.object({
+    status: ProvisionerJobStatusSchema,
+    error: z.string().optional(),
+  }),
+  resources: z
+    .array(z.object({ agents: z.array(WorkspaceAgentSchema).nullish() }))
+    .nullish(),
+  /** The app of the template's AI agent, if the template has one */
+  ai_task_sidebar_app_id: z.string().nullish(),
+});
+
+export type WorkspaceBuild = z.infer<typeof WorkspaceBuildSchema>;
+
+export const workspaceAgents = (build: WorkspaceBuild): WorkspaceAgent[] =>
+  (build.resources ?? []).flatMap((resource) => resource.agents ?? []);
+
+/**
+ * Returns true once an agent has finished starting, whether or not its
+ * startup scripts succeeded
+ */
+export const isAgentStartDone = (state: string): boolean =>
+  state !== "created" && state !== "starting";
+
+const WorkspaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  latest_build: WorkspaceBuildSchema,
+  ttl_ms: z.number().nullish(),
+  autostart_schedule: z.string().nullish(),
+  automatic_updates: z.string().optional(),
+});
+
+export type Workspace = z.infer<typeof WorkspaceSchema>;
+
+const ProvisionerJobLogSchema = z.object({
+  id: z.number(),
+  created_at: z.string(),
+  log_level: z.string(),
+  stage: z.string(),
+  output: z.string(),
+});
+
+export type ProvisionerJobLog = z.infer<typeof ProvisionerJobLogSchema>;
+
+const ProvisionerJobLogsResponseSchema = z
+  .array(ProvisionerJobLogSchema)
+  .nullable()
+  .transform((logs) => logs ?? []);
+
+/**
+ * Returns true if the job has reached a state it will never leave
+ */
+export const isProvisionerJobDone = (status: ProvisionerJobStatus): boolean =>
+  status === "succeeded" || status === "failed" || status === "canceled";
+
+const TemplateVersionParameterSchema = z.object({
+  name: z.string(),
+  display_name: z.string().optional(),
+  type: z.enum(["string", "number", "bool", "list(string)"]),
+  mutable: z.boolean(),
+  default_value: z.string(),
+  required: z.boolean(),
+  ephemeral: z.boolean().optional(),
+  options: z
+    .array(z.object({ name: z.string(), value: z.string() }))
+    .nullable()
+    .transform((options) => options ?? []),
+  validation_regex: z.string().optional(),
+  validation_error: z.string().optional(),
+  validation_min: z.number().nullable().optional(),
+  validation_max: z.number().nullable().optional(),
+});
+
+export type TemplateVersionParameter = z.infer<
+  typeof TemplateVersionParameterSchema
+>;
+
+const TemplateVersionParametersResponseSchema = z.array(
+  TemplateVersionParameterSchema
+);
+
+const WorkspaceBuildParametersResponseSchema = z.array(
+  z.object({
+    name: z.string(),
+    value: z.string(),
+  })
+);
+
 const UserResponseSchema = z.object({
   id: z.string(),
 });
@@ -27,57 +202,367 @@ const UserListResponseSchema = z.object({
   count: z.number(),
 });
 
+/**
+ * Thrown when a request to Coder fails without a response, e.g. because the
+ * connection was reset or the request timed out
+ */
+export class CoderNetworkError extends Error {}
+
+const CoderErrorResponseSchema = z.object({
+  message: z.string().optional(),
+  detail: z.string().optional(),
+  validations: z
+    .array(z.object({ field: z.string(), detail: z.string() }))
+    .nullish()
+    .transform((validations) => validations ?? []),
+});
+
+/**
+ * Thrown when Coder answers a request with an error. The message, detail
+ * and validations are taken from Coder's error response, if it sent one.
+ */
+export class CoderApiError extends Error {
+  readonly status: number;
+  /** Path and query of the request, without the server URL */
+  readonly endpoint: string;
+  readonly apiMessage: string | undefined;
+  readonly detail: string | undefined;
+  readonly validations: { field: string; detail: string }[];
+
+  constructor(
+    message: string,
+    args: {
+      status: number;
+      endpoint: string;
+      apiMessage?: string;
+      detail?: string;
+      validations?: { field: string; detail: string }[];
+    }
+  ) {
+    super(message);
+    this.status = args.status;
+    this.endpoint = args.endpoint;
+    this.apiMessage = args.apiMessage;
+    this.detail = args.detail;
+    this.validations = args.validations ?? [];
+  }
+
+  /**
+   * Reads the error response of a failed request. `action` describes what
+   * the request was for, e.g. "get Coder user".
+   */
+  static async fromResponse(
+    response: Response,
+    action: string
+  ): Promise<CoderApiError> {
+    const body = await response.text();
+    let envelope: z.infer<typeof CoderErrorResponseSchema> = {
+      validations: [],
+    };
+    try {
+      envelope = CoderErrorResponseSchema.parse(JSON.parse(body));
+    } catch {
+      // Not a Coder error response, e.g. from a proxy
+    }
+    const url = new URL(response.url);
+    return new CoderApiError(
+      `Failed to ${action}, status code: ${response.status}, body: ${body}`,
+      {
+        status: response.status,
+        endpoint: `${url.pathname}${url.search}`,
+        apiMessage: envelope.message,
+        detail: envelope.detail,
+        validations: envelope.validations,
+      }
+    );
+  }
+}
+
+export interface CoderClientOptions {
+  /** Maximum time a single request may take */
+  requestTimeoutMs?: number;
+  /** Maximum number of attempts for requests that may be retried */
+  maxAttempts?: number;
+  /** Upper bound of the delay before the first retry, doubled every retry */
+  retryBaseDelayMs?: number;
+}
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const isRetryableStatus = (status: number): boolean =>
+  status === 429 || status >= 500;
+
 export class CoderClient {
   private readonly headers: Record<string, string>;
-  constructor(private readonly serverURL: string, apiToken: string) {
+  private readonly requestTimeoutMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelayMs: number;
+  constructor(
+    private readonly serverURL: string,
+    apiToken: string,
+    options: CoderClientOptions = {}
+  ) {
     this.headers = {
       "Coder-Session-Token": apiToken,
       "Content-Type": "application/json",
     };
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 30_000;
+    this.maxAttempts = options.maxAttempts ?? 4;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
   }
+
   /**
-   * Gets template information by name from the Coder API
+   * Sends a request to the Coder API. Every attempt is subject to the
+   * request timeout. Network errors, 5xx and 429 responses are retried with
+   * exponential backoff, but only if `retry` is set, which is the default for
+   * GET requests. Other non-OK responses are returned to the caller.
    */
-  async getTemplateInfo(
-    templateName: string
-  ): Promise<{ templateId: string; templateVersionId: string }> {
-    const response = await fetch(
-      `${this.serverURL}/api/v2/templates?q=exact_name:${templateName}`,
-      {
-        method: "GET",
-        headers: this.headers,
+  private async request(
+    method: "GET" | "POST",
+    path: string,
+    options: { body?: unknown; retry?: boolean } = {}
+  ): Promise<Response> {
+    const retry = options.retry ?? method === "GET";
+    const maxAttempts = retry ? this.maxAttempts : 1;
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | undefined;
+      let error: unknown;
+      try {
+        response = await fetch(`${this.serverURL}${path}`, {
+          method,
+          headers: this.headers,
+          body:
+            options.body === undefined
+              ? undefined
+              : JSON.stringify(options.body),
+          signal: AbortSignal.timeout(this.requestTimeoutMs),
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      if (response && !isRetryableStatus(response.status)) {
+        return response;
+      }
+      if (attempt >= maxAttempts) {
+        if (response) {
+          return response;
+        }
+        const reason =
+          error instanceof Error && error.name === "TimeoutError"
+            ? `timed out after ${this.requestTimeoutMs}ms`
+            : `failed: ${error}`;
+        throw new CoderNetworkError(`${method} ${path} ${reason}`, {
+          cause: error,
+        });
+      }
+      // Free the connection before waiting
+      await response?.body?.cancel();
+      await sleep(this.retryDelayMs(attempt, response));
+    }
+  }
+
+  /**
+   * Returns how long to wait before the next attempt. Honors the
+   * Retry-After header and otherwise uses exponential backoff with full
+   * jitter.
+   */
+  private retryDelayMs(attempt: number, response?: Response): number {
+    const retryAfter = response?.headers.get("retry-after");
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delayMs = Number.isNaN(seconds)
+        ? Date.parse(retryAfter) - Date.now()
+        : seconds * 1000;
+      if (!Number.isNaN(delayMs)) {
+        return Math.min(Math.max(delayMs, 0), MAX_RETRY_DELAY_MS);
       }
+    }
+    const maxDelayMs = Math.min(
+      this.retryBaseDelayMs * 2 ** (attempt - 1),
+      MAX_RETRY_DELAY_MS
+    );
+    return Math.random() * maxDelayMs;
+  }
+
+  /**
+   * Gets all templates with the given name, across all organizations the
+   * token can see
+   */
+  async getTemplatesByName(templateName: string): Promise<Template[]> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/templates?q=exact_name:${templateName}`
     );
 
     if (!response.ok) {
-      throw new Error(
-        `Failed to get Coder templates, status code: ${response.status}`
-      );
+      throw await CoderApiError.fromResponse(response, "get Coder templates");
     }
 
     const data = await response.json();
     const templates = TemplatesResponseSchema.parse(data);
+    return templates.filter((t) => t.name === templateName);
+  }
+
+  /**
+   * Gets a template by its organization (name or ID) and name.
+   * Returns undefined if the organization has no template with that name.
+   */
+  async getTemplateByOrganizationAndName(
+    organization: string,
+    templateName: string
+  ): Promise<Template | undefined> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/organizations/${organization}/templates/${templateName}`
+    );
 
-    const template = templates.find((t) => t.name === templateName);
-    if (!template) {
-      throw new Error(`Template with name ${templateName} not found`);
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(
+        response,
+        "get Coder template by organization and name"
+      );
     }
 
-    return {
-      templateId: template.id,
-      templateVersionId: template.active_version_id,
-    };
+    const data = await response.json();
+    return TemplateSchema.parse(data);
+  }
+
+  /**
+   * Gets a version of a template by its name.
+   * Returns undefined if the template has no version with that name.
+   */
+  async getTemplateVersionByName(
+    templateID: string,
+    versionName: string
+  ): Promise<TemplateVersion | undefined> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/templates/${templateID}/versions/${encodeURIComponent(
+        versionName
+      )}`
+    );
+
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(
+        response,
+        "get Coder template version"
+      );
+    }
+
+    const data = await response.json();
+    return TemplateVersionSchema.parse(data);
+  }
+
+  /**
+   * Gets the presets of a template version
+   */
+  async getTemplateVersionPresets(
+    templateVersionID: string
+  ): Promise<TemplateVersionPreset[]> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/templateversions/${templateVersionID}/presets`
+    );
+
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(
+        response,
+        "get Coder template version presets"
+      );
+    }
+
+    const data = await response.json();
+    return TemplateVersionPresetsResponseSchema.parse(data);
+  }
+
+  /**
+   * Gets the organizations a user (username or user ID) is a member of
+   */
+  async getUserOrganizations(user: string): Promise<Organization[]> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/users/${user}/organizations`
+    );
+
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(
+        response,
+        "get Coder user organizations"
+      );
+    }
+
+    const data = await response.json();
+    return OrganizationsResponseSchema.parse(data);
+  }
+
+  /**
+   * Gets the rich parameter definitions of a template version
+   */
+  async getTemplateVersionRichParameters(
+    templateVersionID: string
+  ): Promise<TemplateVersionParameter[]> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/templateversions/${templateVersionID}/rich-parameters`
+    );
+
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(
+        response,
+        "get Coder template version parameters"
+      );
+    }
+
+    const data = await response.json();
+    return TemplateVersionParametersResponseSchema.parse(data);
+  }
+
+  /**
+   * Gets the parameter values a workspace build was created with
+   */
+  async getWorkspaceBuildParameters(
+    buildID: string
+  ): Promise<Record<string, string>> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/workspacebuilds/${buildID}/parameters`
+    );
+
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(
+        response,
+        "get Coder workspace build parameters"
+      );
+    }
+
+    const data = await response.json();
+    const parameters = WorkspaceBuildParametersResponseSchema.parse(data);
+    return Object.fromEntries(parameters.map((p) => [p.name, p.value]));
   }
 
   /**
    * Creates a new workspace with the specified parameters
-   * Returns the ID of the created workspace
+   * Returns the ID of the created workspace.
+   * If templateVersionID is set, the workspace is built from that version
+   * instead of the template's active version.
    */
   async createWorkspace(args: {
     ownerID: string;
     templateID: string;
+    templateVersionID?: string;
+    presetID?: string;
     workspaceName: string;
     parameters: Record<string, string>;
+    ttlMs?: number;
+    autostartSchedule?: string;
+    automaticUpdates?: "always" | "never";
   }): Promise<string> {
     const { ownerID, templateID, workspaceName, parameters } = args;
     const paramArray = Object.entries(parameters).map(([key, value]) => {
@@ -86,47 +571,245 @@ export class CoderClient {
         value,
       };
     });
-    const response = await fetch(
-      `${this.serverURL}/api/v2/users/${ownerID}/workspaces`,
+    const path = `/api/v2/users/${ownerID}/workspaces`;
+    // Coder rejects requests that set both the template and a version
+    const body = {
+      ...(args.templateVersionID
+        ? { template_version_id: args.templateVersionID }
+        : { template_id: templateID }),
+      template_version_preset_id: args.presetID,
+      name: workspaceName,
+      ttl_ms: args.ttlMs,
+      autostart_schedule: args.autostartSchedule,
+      automatic_updates: args.automaticUpdates,
+      rich_parameter_values: paramArray,
+    };
+    // Creating a workspace isn't idempotent, so the request layer doesn't
+    // retry it. If the outcome of an attempt is unknown, the workspace may
+    // have been created anyway, so look for it before trying again.
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | undefined;
+      try {
+        response = await this.request("POST", path, { body });
+      } catch (error) {
+        if (
+          !(error instanceof CoderNetworkError) ||
+          attempt >= this.maxAttempts
+        ) {
+          throw error;
+        }
+      }
+
+      if (
+        response &&
+        (!isRetryableStatus(response.status) || attempt >= this.maxAttempts)
+      ) {
+        if (!response.ok) {
+          throw await CoderApiError.fromResponse(
+            response,
+            "create Coder workspace"
+          );
+        }
+
+        const data = await response.json();
+        const parsedData = WorkspaceResponseSchema.parse(data);
+
+        return parsedData.id;
+      }
+
+      await response?.body?.cancel();
+      const existing = await this.getWorkspaceByOwnerAndName(
+        ownerID,
+        workspaceName
+      );
+      if (existing) {
+        return existing.id;
+      }
+      await sleep(this.retryDelayMs(attempt, response));
+    }
+  }
+
+  /**
+   * Gets a workspace, including its latest build, by ID
+   */
+  async getWorkspace(workspaceID: string): Promise<Workspace> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/workspaces/${workspaceID}`
+    );
+
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(response, "get Coder workspace");
+    }
+
+    const data = await response.json();
+    return WorkspaceSchema.parse(data);
+  }
+
+  /**
+   * Gets a workspace by its owner (username or user ID) and name.
+   * Returns undefined if the owner has no workspace with that name.
+   */
+  async getWorkspaceByOwnerAndName(
+    owner: string,
+    workspaceName: string
+  ): Promise<Workspace | undefined> {
+    const response = await this.request(
+      "GET",
+      `/api/v2/users/${owner}/workspace/${workspaceName}`
+    );
+
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(
+        response,
+        "get Coder workspace by name"
+      );
+    }
+
+    const data = await response.json();
+    return WorkspaceSchema.parse(data);
+  }
+
+  /**
+   * Queues a new build that transitions the workspace to the given state.
+   * If templateVersionID is set, the build uses that template version.
+   * Parameters that aren't set keep their values from the previous build.
+   */
+  async createWorkspaceBuild(
+    workspaceID: string,
+    args: {
+      transition: WorkspaceTransition;
+      templateVersionID?: string;
+      presetID?: string;
+      parameters?: Record<string, string>;
+    }
+  ): Promise<WorkspaceBuild> {
+    const response = await this.request(
+      "POST",
+      `/api/v2/workspaces/${workspaceID}/builds`,
       {
-        method: "POST",
-        headers: this.headers,
-        body: JSON.stringify({
-          template_id: templateID,
-          name: workspaceName,
-          autostart: true,
-          rich_parameter_values: paramArray,
-        }),
+        body: {
+          transition: args.transition,
+          template_version_id: args.templateVersionID,
+          template_version_preset_id: args.presetID,
+          rich_parameter_values: args.parameters
+            ? Object.entries(args.parameters).map(([name, value]) => ({
+                name,
+                value,
+              }))
+            : undefined,
+        },
       }
     );
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to create Coder workspace, status code: ${response.status}, body: ${errorText}`
+      throw await CoderApiError.fromResponse(
+        response,
+        "create Coder workspace build"
       );
     }
 
     const data = await response.json();
-    const parsedData = WorkspaceResponseSchema.parse(data);
+    return WorkspaceBuildSchema.parse(data);
+  }
 
-    return parsedData.id;
+  /**
+   * Gets the provisioner logs of a workspace build. If `after` is set, only
+   * logs with a greater ID are returned.
+   */
+  async getWorkspaceBuildLogs(
+    buildID: string,
+    after?: number
+  ): Promise<ProvisionerJobLog[]> {
+    const query = after === undefined ? "" : `?after=${after}`;
+    const response = await this.request(
+      "GET",
+      `/api/v2/workspacebuilds/${buildID}/logs${query}`
+    );
+
+    if (!response.ok) {
+      throw await CoderApiError.fromResponse(
+        response,
+        "get Coder workspace build logs"
+      );
+    }
+
+    const data = await response.json();
+    return ProvisionerJobLogsResponseSchema.parse(data);
+  }
+
+  /**
+   * Polls the latest build of a workspace until its job is done or the
+   * timeout elapses, and passes every new line of the build's provisioner
+   * logs to `onLog` in order. Returns the last observed build, so callers
+   * must check the job status to tell a finished build from a timed out one.
+   * Logs are fetched with the `after` cursor on every poll instead of the
+   * websocket `follow` mode, so this works through proxies that don't
+   * support websockets.
+   */
+  async followLatestBuildLogs(
+    workspaceID: string,
+    onLog: (log: ProvisionerJobLog) => void | Promise<void>,
+    options: { timeoutMs: number; pollIntervalMs?: number }
+  ): Promise<WorkspaceBuild> {
+    const pollIntervalMs = options.pollIntervalMs ?? 2000;
+    const deadline = Date.now() + options.timeoutMs;
+    let buildID: string | undefined;
+    let after: number | undefined;
+    while (true) {
+      const workspace = await this.getWorkspace(workspaceID);
+      const build = workspace.latest_build;
+      if (build.id !== buildID) {
+        buildID = build.id;
+        after = undefined;
+      }
+      const logs = await this.getWorkspaceBuildLogs(build.id, after);
+      for (const log of logs) {
+        await onLog(log);
+        after = log.id;
+      }
+      if (isProvisionerJobDone(build.job.status) || Date.now() >= deadline) {
+        return build;
+      }
+      await sleep(Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  /**
+   * Polls a workspace until all of its agents have finished starting or the
+   * timeout elapses. Returns the last observed workspace, so callers must
+   * check the agents' lifecycle states.
+   */
+  async waitForAgents(
+    workspaceID: string,
+    options: { timeoutMs: number; pollIntervalMs?: number }
+  ): Promise<Workspace> {
+    const pollIntervalMs = options.pollIntervalMs ?? 2000;
+    const deadline = Date.now() + options.timeoutMs;
+    while (true) {
+      const workspace = await this.getWorkspace(workspaceID);
+      const agents = workspaceAgents(workspace.latest_build);
+      if (
+        agents.every((agent) => isAgentStartDone(agent.lifecycle_state)) ||
+        Date.now() >= deadline
+      ) {
+        return workspace;
+      }
+      await sleep(Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    }
   }
 
   /**
    * Gets the user ID for a given username from the Coder API
    */
   async getUserID(username: string): Promise<string> {
-    const response = await fetch(`${this.serverURL}/api/v2/users/${username}`, {
-      method: "GET",
-      headers: this.headers,
-    });
+    const response = await this.request("GET", `/api/v2/users/${username}`);
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to get Coder user, status code: ${response.status}, body: ${errorText}`
-      );
+      throw await CoderApiError.fromResponse(response, "get Coder user");
     }
 
     const data = await response.json();
@@ -136,26 +819,15 @@ export class CoderClient {
   }
 
   async getCoderUsersByGitHubId(githubId: string): Promise<string[]> {
-    const response = await fetch(
-      `${this.serverURL}/api/v2/users?q=github_com_user_id:${githubId}`,
-      {
-        method: "GET",
-        headers: this.headers,
-      }
+    const response = await this.request(
+      "GET",
+      `/api/v2/users?q=github_com_user_id:${githubId}`
     );
 
     if (!response.ok) {
-      const errorText = await response.text();
-      let extraExplanation = "";
-      if (
-        errorText.includes("github_com_user_id") &&
-        errorText.includes("not a valid query param")
-      ) {
-        extraExplanation =
-          "Only Coder 2.21 and above supports querying users by their GitHub ID";
-      }
-      throw new Error(
-        `${extraExplanation}\nFailed to list Coder users by GitHub ID, status code: ${response.status}, body: ${errorText}`
+      throw await CoderApiError.fromResponse(
+        response,
+        "list Coder users by GitHub ID"
       );
     }
 
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "bun:test";
+import { parseSlashCommand } from "./command";
+
+describe("parseSlashCommand", () => {
+  it("parses the subcommand and arguments of the first command", () => {
+    expect(
+      parseSlashCommand(
+        'Please have a look.\n\n  /coder start template=gpu-dev region=eu name="My workspace"\n/coder start size=small'
+      )
+    ).toEqual({
+      subcommand: "start",
+      args: { template: "gpu-dev", region: "eu", name: "My workspace" },
+      problems: [],
+    });
+  });
+
+  it("accepts commands without a subcommand", () => {
+    expect(parseSlashCommand("/coder size=large")).toEqual({
+      args: { size: "large" },
+      problems: [],
+    });
+    expect(parseSlashCommand("/coder")).toEqual({ args: {}, problems: [] });
+  });
+
+  it("reports arguments that aren't name=value", () => {
+    expect(parseSlashCommand("/coder start large =eu")?.problems).toEqual([
+      "`large` is not a `name=value` argument",
+      "`=eu` is not a `name=value` argument",
+    ]);
+  });
+
+  it("ignores text without a command", () => {
+    expect(parseSlashCommand("Use /coder to start a workspace")).toBe(
+      undefined
+    );
+    expect(parseSlashCommand("/coders start")).toBe(undefined);
+    expect(parseSlashCommand("> /coder start size=large")).toBe(undefined);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * A `/coder` command from an issue or comment, e.g.
+ * `/coder start template=gpu-dev region=eu`
+ */
+export interface SlashCommand {
+  /** The word after `/coder`, e.g. `start` */
+  subcommand?: string;
+  args: Record<string, string>;
+  problems: string[];
+}
+
+const COMMAND_REGEX = /^\/coder(?:\s+(.*))?$/;
+
+const ARG_NAME_REGEX = /^[\w.-]+$/;
+
+/**
+ * Splits a command line on whitespace, keeping quoted values such as
+ * `name="My workspace"` together and dropping the quotes
+ */
+const tokenize = (line: string): string[] =>
+  [...line.matchAll(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g)].map((match) =>
+    match[0].replace(/"([^"]*)"|'([^']*)'/g, "$1$2")
+  );
+
+/**
+ * Parses the first line of the text that starts with `/coder`. Returns
+ * undefined if there is no such line. Arguments must look like
+ * `name=value`; everything else is reported in `problems`.
+ */
+export const parseSlashCommand = (text: string): SlashCommand | undefined => {
+  for (const line of text.split("\n")) {
+    const match = COMMAND_REGEX.exec(line.trim());
+    if (!match) {
+      continue;
+    }
+    const command: SlashCommand = { args: {}, problems: [] };
+    const tokens = tokenize(match[1] ?? "");
+    if (tokens[0] !== undefined && !tokens[0].includes("=")) {
+      command.subcommand = tokens.shift();
+    }
+    for (const token of tokens) {
+      const separator = token.indexOf("=");
+      const name = token.slice(0, separator);
+      if (separator === -1 || !ARG_NAME_REGEX.test(name)) {
+        command.problems.push(`\`${token}\` is not a \`name=value\` argument`);
+        continue;
+      }
+      command.args[name] = token.slice(separator + 1);
+    }
+    return command;
+  }
+  return undefined;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import {
+  findUnknownCommentPlaceholders,
+  renderChecklist,
+  renderComment,
+} from "./comment-template";
+
+describe("renderChecklist", () => {
+  const items = [
+    { label: "Coder user resolved", done: true },
+    { label: "Build queued", done: false },
+    { label: "Workspace ready", done: false },
+  ];
+
+  it("marks the first unfinished item by the state of the run", () => {
+    expect(renderChecklist(items, "in-progress")).toBe(
+      "- ✅ Coder user resolved\n- ⏳ Build queued\n- ⬜ Workspace ready"
+    );
+    expect(renderChecklist(items, "failed")).toBe(
+      "- ✅ Coder user resolved\n- ❌ Build queued\n- ⬜ Workspace ready"
+    );
+    expect(renderChecklist(items, "canceled")).toBe(
+      "- ✅ Coder user resolved\n- ⚠️ Build queued\n- ⬜ Workspace ready"
+    );
+    expect(renderChecklist(items, "succeeded")).toBe(
+      "- ✅ Coder user resolved\n- ⬜ Build queued\n- ⬜ Workspace ready"
+    );
+  });
+});
+
+describe("renderComment", () => {
+  it("fills in placeholders and leaves out lines without a value", () => {
+    const template =
+      "{{ status }}\n\nOwner: {{owner}}\n\nWorkspace: {{ workspace_url }}\n\n[Logs]({{ run_url }})";
+    expect(
+      renderComment(template, {
+        status: "🔄 Starting",
+        owner: "hugo",
+        run_url: "https://github.com/run",
+      })
+    ).toBe("🔄 Starting\n\nOwner: hugo\n\n[Logs](https://github.com/run)");
+  });
+
+  it("keeps unknown placeholders", () => {
+    expect(
+      renderComment("{{ status }} {{ issue.title }}", { status: "✅" })
+    ).toBe("✅ {{ issue.title }}");
+  });
+});
+
+describe("findUnknownCommentPlaceholders", () => {
+  it("returns each unknown placeholder once", () => {
+    expect(
+      findUnknownCommentPlaceholders(
+        "{{ status }} {{ workspace }} {{workspace}} {{ run_url }} {{ user }}"
+      )
+    ).toEqual(["workspace", "user"]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Placeholders that can be used in `comment-template`, e.g. `{{ status }}`
+ */
+export const COMMENT_PLACEHOLDERS = [
+  "status",
+  "checklist",
+  "workspace_url",
+  "owner",
+  "template",
+  "run_url",
+  "label_route",
+  "lifecycle",
+  "apps",
+] as const;
+
+export type CommentPlaceholder = (typeof COMMENT_PLACEHOLDERS)[number];
+
+export const DEFAULT_COMMENT_TEMPLATE = `{{ status }}
+
+{{ checklist }}
+
+Workspace: {{ workspace_url }}
+
+{{ apps }}
+
+Lifecycle: {{ lifecycle }}
+
+Label routing: {{ label_route }}`;
+
+export type CommentState = "in-progress" | "succeeded" | "failed" | "canceled";
+
+export interface ChecklistItem {
+  label: string;
+  done: boolean;
+}
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Renders the progress checklist. The first unfinished item is marked as
+ * in progress, failed or canceled, depending on the state of the run.
+ * After a successful run, unfinished items are steps the action didn't wait
+ * for.
+ */
+export const renderChecklist = (
+  items: ChecklistItem[],
+  state: CommentState
+): string => {
+  const current = items.findIndex((item) => !item.done);
+  const currentMarker = {
+    "in-progress": "⏳",
+    succeeded: "⬜",
+    failed: "❌",
+    canceled: "⚠️",
+  }[state];
+  return items
+    .map((item, index) => {
+      const marker = item.done
+        ? "✅"
+        : index === current
+        ? currentMarker
+        : "⬜";
+      return `- ${marker} ${item.label}`;
+    })
+    .join("\n");
+};
+
+/**
+ * Returns the names of placeholders in the template that don't exist
+ */
+export const findUnknownCommentPlaceholders = (template: string): string[] => [
+  ...new Set(
+    [...template.matchAll(PLACEHOLDER_REGEX)]
+      .map((match) => match[1] ?? "")
+      .filter(
+        (name) => !(COMMENT_PLACEHOLDERS as readonly string[]).includes(name)
+      )
+  ),
+];
+
+/**
+ * Fills in the comment template. Lines with a placeholder whose value isn't
+ * known yet, such as the workspace URL before the Coder user is resolved,
+ * are left out. Unknown placeholders are kept as they are.
+ */
+export const renderComment = (
+  template: string,
+  values: Partial<Record<CommentPlaceholder, string>>
+): string =>
+  template
+    .split("\n")
+    .flatMap((line) => {
+      let missing = false;
+      const rendered = line.replaceAll(
+        PLACEHOLDER_REGEX,
+        (match, name: string) => {
+          if (!(COMMENT_PLACEHOLDERS as readonly string[]).includes(name)) {
+            return match;
+          }
+          const value = values[name as CommentPlaceholder];
+          if (value === undefined) {
+            missing = true;
+            return "";
+          }
+          return value;
+        }
+      );
+      return missing ? [] : [rendered];
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
@@ -1,53 +1,145 @@
-import fs from "fs/promises";
+import { Octokit } from "@octokit/rest";
 import {
   StartWorkspaceAction,
   ActionInputSchema,
-  type ActionInput,
+  describeInputIssues,
   UserFacingError,
+  type ActionInput,
 } from "./action";
+import { githubCommentApi, StatusComment } from "./status-comment";
 
 type InputEnv = {
   [k in keyof ActionInput]: string;
 };
 
+type RawInput = Partial<Record<keyof ActionInput, string>>;
+
+/**
+ * Posts the problems with the inputs on the issue. No status comment exists
+ * yet when the inputs are invalid, so this only uses the raw inputs the
+ * composite step fills in.
+ */
+const reportInvalidInput = async (raw: RawInput, problems: string) => {
+  const issueNumber = parseInt(raw.githubIssueNumber ?? "");
+  const commentId = parseInt(raw.githubStatusCommentId ?? "");
+  const owner = raw.githubRepoOwner;
+  const repo = raw.githubRepoName;
+  if (!owner || !repo || !raw.githubUrl || isNaN(issueNumber)) {
+    console.warn("Not posting a status comment, since the issue is unknown");
+    return;
+  }
+  const octokit = new Octokit({
+    auth: raw.githubToken,
+    baseUrl: raw.githubUrl,
+  });
+  const comment = new StatusComment(
+    githubCommentApi(octokit, { owner, repo, issueNumber })
+  );
+  const section = [
+    "❌ The action inputs are invalid:",
+    problems,
+    ...(raw.githubWorkflowRunUrl
+      ? [`You can view the action logs [here](${raw.githubWorkflowRunUrl}).`]
+      : []),
+  ].join("\n\n");
+  if (isNaN(commentId)) {
+    await comment.create(section);
+  } else {
+    await comment.attach(commentId);
+    await comment.update(section);
+  }
+};
+
 const main = async () => {
   const inputEnv: InputEnv = {
     githubUsername: "GITHUB_USERNAME",
     coderUsername: "CODER_USERNAME",
     coderUrl: "CODER_URL",
     coderToken: "CODER_TOKEN",
+    coderOrganization: "CODER_ORGANIZATION",
     workspaceName: "WORKSPACE_NAME",
+    workspaceNameTemplate: "WORKSPACE_NAME_TEMPLATE",
     githubStatusCommentId: "GITHUB_STATUS_COMMENT_ID",
     githubRepoOwner: "GITHUB_REPO_OWNER",
     githubRepoName: "GITHUB_REPO_NAME",
     githubToken: "GITHUB_TOKEN",
     githubWorkflowRunUrl: "GITHUB_WORKFLOW_RUN_URL",
     templateName: "TEMPLATE_NAME",
+    templateVersion: "TEMPLATE_VERSION",
+    templatePreset: "TEMPLATE_PRESET",
     workspaceParameters: "WORKSPACE_PARAMETERS",
     githubUrl: "GITHUB_URL",
+    buildTimeoutSeconds: "BUILD_TIMEOUT_SECONDS",
+    buildLogLines: "BUILD_LOG_LINES",
+    requestTimeoutSeconds: "REQUEST_TIMEOUT_SECONDS",
+    requestMaxAttempts: "REQUEST_MAX_ATTEMPTS",
+    mode: "MODE",
+    waitForBuild: "WAIT_FOR_BUILD",
+    ifExists: "IF_EXISTS",
+    requiredPermission: "REQUIRED_PERMISSION",
+    allowedUsers: "ALLOWED_USERS",
+    allowedTeams: "ALLOWED_TEAMS",
+    userMapping: "USER_MAPPING",
+    userMappingFallback: "USER_MAPPING_FALLBACK",
+    dryRun: "DRY_RUN",
+    sensitiveParameters: "SENSITIVE_PARAMETERS",
+    allowedTemplates: "ALLOWED_TEMPLATES",
+    overridableParameters: "OVERRIDABLE_PARAMETERS",
+    labelRouting: "LABEL_ROUTING",
+    ttlMs: "TTL",
+    autostartSchedule: "AUTOSTART_SCHEDULE",
+    automaticUpdates: "AUTOMATIC_UPDATES",
+    waitForAgents: "WAIT_FOR_AGENTS",
+    agentStartError: "AGENT_START_ERROR",
+    agentTimeoutSeconds: "AGENT_TIMEOUT_SECONDS",
+    commentTemplate: "COMMENT_TEMPLATE",
+    githubIssueNumber: "GITHUB_ISSUE_NUMBER",
+    githubCommentId: "GITHUB_COMMENT_ID",
+    githubActor: "GITHUB_ACTOR",
+    placeholderMaxLength: "PLACEHOLDER_MAX_LENGTH",
+    githubOutputFile: "GITHUB_OUTPUT",
+    githubStepSummaryFile: "GITHUB_STEP_SUMMARY",
   };
 
-  const input = ActionInputSchema.parse(
-    Object.fromEntries(
-      Object.entries(inputEnv).map(([key, value]) => [
-        key,
-        process.env[value] === "" ? undefined : process.env[value],
-      ])
-    )
+  const raw: RawInput = Object.fromEntries(
+    Object.entries(inputEnv).map(([key, value]) => [
+      key,
+      process.env[value] === "" ? undefined : process.env[value],
+    ])
   );
-  const action = new StartWorkspaceAction(console, input);
+  const parsed = ActionInputSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = describeInputIssues(
+      parsed.error,
+      (name) => `- \`${name}\``
+    );
+    try {
+      await reportInvalidInput(raw, problems);
+    } catch (error) {
+      console.error(error);
+    }
+    throw new UserFacingError(`The action inputs are invalid:\n${problems}`);
+  }
+  const action = new StartWorkspaceAction(console, parsed.data);
+
+  // GitHub sends SIGINT, then SIGTERM, when a workflow run is canceled
+  const onCancel = async () => {
+    try {
+      await action.cancel();
+    } catch (error) {
+      console.error(error);
+    }
+    process.exit(1);
+  };
+  process.once("SIGINT", onCancel);
+  process.once("SIGTERM", onCancel);
+
   await action.execute();
 };
 
 try {
   await main();
 } catch (error) {
-  if (error instanceof UserFacingError) {
-    const githubEnvFile = process.env["GITHUB_ENV"];
-    if (githubEnvFile) {
-      await fs.appendFile(githubEnvFile, `ERROR_MSG=${error.message}\n`);
-    }
-  }
   console.error(error);
   process.exit(1);
 }
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "bun:test";
+import {
+  describeLabelRouteMatch,
+  matchLabelRoute,
+  type LabelRoute,
+} from "./label-routing";
+
+describe("matchLabelRoute", () => {
+  const routes: LabelRoute[] = [
+    { labels: ["needs-gpu"], template: "gpu-dev", parameters: { gpu: true } },
+    { labels: ["area/frontend", "area/infra"], template: "web" },
+    { parameters: { size: "small" } },
+  ];
+
+  it("returns the first rule that matches a label", () => {
+    expect(matchLabelRoute(routes, ["Area/Infra", "needs-gpu", "bug"])).toEqual(
+      { route: routes[0]!, index: 1, labels: ["needs-gpu"] }
+    );
+    expect(matchLabelRoute(routes, ["bug", "Area/Infra"])).toEqual({
+      route: routes[1]!,
+      index: 2,
+      labels: ["Area/Infra"],
+    });
+  });
+
+  it("falls back to the default rule", () => {
+    expect(matchLabelRoute(routes, ["bug"])).toEqual({
+      route: routes[2]!,
+      index: 3,
+      labels: [],
+    });
+    expect(matchLabelRoute(routes.slice(0, 2), ["bug"])).toBe(undefined);
+  });
+});
+
+describe("describeLabelRouteMatch", () => {
+  it("describes the labels and what the rule changes", () => {
+    expect(
+      describeLabelRouteMatch({
+        route: { template: "gpu-dev", parameters: { gpu: true, size: "xl" } },
+        index: 1,
+        labels: ["needs-gpu"],
+      })
+    ).toBe(
+      "rule 1 (labels `needs-gpu`): template gpu-dev, parameters gpu, size"
+    );
+    expect(describeLabelRouteMatch({ route: {}, index: 3, labels: [] })).toBe(
+      "rule 3 (default): no changes"
+    );
+  });
+});
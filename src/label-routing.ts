@@ -0,0 +1,63 @@
+import type { ParameterValue } from "./parameters";
+
+/**
+ * A rule of the `label-routing` input. A rule without labels is the
+ * default and matches every issue.
+ */
+export interface LabelRoute {
+  labels?: string[];
+  template?: string;
+  parameters?: Record<string, ParameterValue>;
+}
+
+export interface LabelRouteMatch {
+  route: LabelRoute;
+  /** Position of the rule in the `label-routing` input, starting at 1 */
+  index: number;
+  /** The issue's labels that matched the rule, empty for the default rule */
+  labels: string[];
+}
+
+/**
+ * Returns the first rule that matches one of the labels, in the order the
+ * rules are listed. Labels are compared case-insensitively, like GitHub
+ * does.
+ */
+export const matchLabelRoute = (
+  routes: LabelRoute[],
+  labels: string[]
+): LabelRouteMatch | undefined => {
+  for (const [index, route] of routes.entries()) {
+    if (route.labels === undefined) {
+      return { route, index: index + 1, labels: [] };
+    }
+    const wanted = route.labels.map((label) => label.toLowerCase());
+    const matched = labels.filter((label) =>
+      wanted.includes(label.toLowerCase())
+    );
+    if (matched.length > 0) {
+      return { route, index: index + 1, labels: matched };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Describes a match for the logs and the status comment, e.g.
+ * "rule 2 (labels `needs-gpu`): template gpu-dev, parameters gpu"
+ */
+export const describeLabelRouteMatch = (match: LabelRouteMatch): string => {
+  const source =
+    match.labels.length > 0
+      ? `labels ${match.labels.map((label) => `\`${label}\``).join(", ")}`
+      : "default";
+  const effects = [
+    ...(match.route.template ? [`template ${match.route.template}`] : []),
+    ...(match.route.parameters && Object.keys(match.route.parameters).length > 0
+      ? [`parameters ${Object.keys(match.route.parameters).join(", ")}`]
+      : []),
+  ];
+  return `rule ${match.index} (${source}): ${
+    effects.length > 0 ? effects.join(", ") : "no changes"
+  }`;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test";
+import {
+  describeLifecycle,
+  formatDuration,
+  parseAutostartSchedule,
+  parseDuration,
+} from "./lifecycle";
+
+describe("parseDuration", () => {
+  it("parses days, hours and minutes", () => {
+    expect(parseDuration("4h")).toBe(4 * 60 * 60 * 1000);
+    expect(parseDuration("90m")).toBe(90 * 60 * 1000);
+    expect(parseDuration(" 1d12h ")).toBe(36 * 60 * 60 * 1000);
+  });
+
+  it("rejects anything else", () => {
+    for (const value of ["4", "4 h", "1.5h", "0h", "4s", "h"]) {
+      expect(parseDuration(value)).toBe(undefined);
+    }
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats durations compactly", () => {
+    expect(formatDuration(36 * 60 * 60 * 1000)).toBe("1d12h");
+    expect(formatDuration(90 * 60 * 1000)).toBe("1h30m");
+    expect(formatDuration(0)).toBe("0m");
+  });
+});
+
+describe("parseAutostartSchedule", () => {
+  it("converts schedules into Coder's form", () => {
+    expect(parseAutostartSchedule("30 9 * * 1-5 Europe/Berlin")).toEqual({
+      schedule: "CRON_TZ=Europe/Berlin 30 9 * * 1-5",
+    });
+    expect(parseAutostartSchedule("0 8 * * MON-FRI")).toEqual({
+      schedule: "CRON_TZ=UTC 0 8 * * MON-FRI",
+    });
+    expect(
+      parseAutostartSchedule("CRON_TZ=America/New_York 0 7 * * *")
+    ).toEqual({ schedule: "CRON_TZ=America/New_York 0 7 * * *" });
+  });
+
+  it("reports invalid schedules", () => {
+    expect(parseAutostartSchedule("every morning")).toEqual({
+      problem:
+        "must be a cron expression with an optional time zone, e.g. `30 9 * * 1-5 Europe/Berlin`",
+    });
+    expect(parseAutostartSchedule("0 8 1 * *")).toEqual({
+      problem:
+        "may only set the minute, hour and day of the week; the day of the month and month must be `*`",
+    });
+    expect(parseAutostartSchedule("0 8 * * * Mars/Olympus")).toEqual({
+      problem: "has an unknown time zone Mars/Olympus",
+    });
+  });
+});
+
+describe("describeLifecycle", () => {
+  it("describes the settings that are known", () => {
+    expect(
+      describeLifecycle({
+        ttlMs: 4 * 60 * 60 * 1000,
+        autostartSchedule: "CRON_TZ=Europe/Berlin 30 9 * * 1-5",
+        automaticUpdates: "always",
+      })
+    ).toBe(
+      "stops after 4h, starts `30 9 * * 1-5` (Europe/Berlin), automatic updates: always"
+    );
+    expect(describeLifecycle({ ttlMs: null, autostartSchedule: null })).toBe(
+      "no autostop, no autostart"
+    );
+    expect(describeLifecycle({ automaticUpdates: "never" })).toBe(
+      "automatic updates: never"
+    );
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * The lifecycle settings of a workspace, as Coder reports them
+ */
+export interface LifecycleSettings {
+  ttlMs?: number | null;
+  autostartSchedule?: string | null;
+  automaticUpdates?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  d: 24 * 60 * MINUTE_MS,
+  h: 60 * MINUTE_MS,
+  m: MINUTE_MS,
+};
+
+/**
+ * Parses a duration like `4h`, `90m` or `1d12h` into milliseconds. Returns
+ * undefined if the value isn't a positive duration.
+ */
+export const parseDuration = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  if (!/^(?:\d+[dhm])+$/.test(trimmed)) {
+    return undefined;
+  }
+  let ms = 0;
+  for (const [, amount, unit] of trimmed.matchAll(/(\d+)([dhm])/g)) {
+    ms += parseInt(amount ?? "0") * (DURATION_UNITS_MS[unit ?? ""] ?? 0);
+  }
+  return ms > 0 ? ms : undefined;
+};
+
+/**
+ * Formats milliseconds like `1d12h` or `1h30m`
+ */
+export const formatDuration = (ms: number): string => {
+  const parts: string[] = [];
+  let rest = Math.round(ms / MINUTE_MS);
+  for (const [unit, minutes] of [
+    ["d", 24 * 60],
+    ["h", 60],
+    ["m", 1],
+  ] as const) {
+    const amount = Math.floor(rest / minutes);
+    if (amount > 0) {
+      parts.push(`${amount}${unit}`);
+    }
+    rest -= amount * minutes;
+  }
+  return parts.join("") || "0m";
+};
+
+const CRON_FIELD_REGEX = /^[\w*,\-/]+$/;
+
+const isTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Converts an autostart schedule like `30 9 * * 1-5 Europe/Berlin` into the
+ * `CRON_TZ=Europe/Berlin 30 9 * * 1-5` form Coder expects. The time zone
+ * defaults to UTC, and schedules already in Coder's form are checked and
+ * passed through. Coder only supports the minute, hour and day-of-week
+ * fields.
+ */
+export const parseAutostartSchedule = (
+  value: string
+): { schedule: string } | { problem: string } => {
+  const tokens = value.trim().split(/\s+/);
+  let timeZone = "UTC";
+  const first = tokens[0];
+  if (first?.startsWith("CRON_TZ=")) {
+    timeZone = first.slice("CRON_TZ=".length);
+    tokens.shift();
+  } else if (tokens.length === 6) {
+    timeZone = tokens[5] ?? timeZone;
+    tokens.pop();
+  }
+  if (tokens.length !== 5 || !tokens.every((t) => CRON_FIELD_REGEX.test(t))) {
+    return {
+      problem:
+        "must be a cron expression with an optional time zone, e.g. `30 9 * * 1-5 Europe/Berlin`",
+    };
+  }
+  if (tokens[2] !== "*" || tokens[3] !== "*") {
+    return {
+      problem:
+        "may only set the minute, hour and day of the week; the day of the month and month must be `*`",
+    };
+  }
+  if (!isTimeZone(timeZone)) {
+    return { problem: `has an unknown time zone ${timeZone}` };
+  }
+  return { schedule: `CRON_TZ=${timeZone} ${tokens.join(" ")}` };
+};
+
+/**
+ * Describes the settings for the status comment, e.g. "stops after 4h,
+ * starts `30 9 * * 1-5` (Europe/Berlin), automatic updates: always".
+ * Settings that are undefined are left out, and null means the setting is
+ * off.
+ */
+export const describeLifecycle = (settings: LifecycleSettings): string => {
+  const parts: string[] = [];
+  if (settings.ttlMs !== undefined) {
+    parts.push(
+      settings.ttlMs
+        ? `stops after ${formatDuration(settings.ttlMs)}`
+        : "no autostop"
+    );
+  }
+  if (settings.autostartSchedule !== undefined) {
+    const schedule = /^CRON_TZ=(\S+)\s+(.*)$/.exec(
+      settings.autostartSchedule ?? ""
+    );
+    parts.push(
+      schedule
+        ? `starts \`${schedule[2]}\` (${schedule[1]})`
+        : settings.autostartSchedule
+        ? `starts \`${settings.autostartSchedule}\``
+        : "no autostart"
+    );
+  }
+  if (settings.automaticUpdates) {
+    parts.push(`automatic updates: ${settings.automaticUpdates}`);
+  }
+  return parts.join(", ");
+};
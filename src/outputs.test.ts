@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatGitHubFileEntries,
+  renderJobSummary,
+  resultOutputs,
+} from "./outputs";
+
+describe("formatGitHubFileEntries", () => {
+  it("uses the delimiter syntax", () => {
+    const formatted = formatGitHubFileEntries({ ERROR_MSG: "line 1\nline 2" });
+    const match = formatted.match(
+      /^ERROR_MSG<<(\S+)\nline 1\nline 2\n(\S+)\n$/
+    );
+    expect(match?.[1]).toBeDefined();
+    expect(match?.[1]).toBe(match?.[2] as string);
+  });
+});
+
+describe("resultOutputs", () => {
+  it("leaves out unknown values", () => {
+    expect(
+      resultOutputs({
+        workspaceName: "issue-1",
+        buildStatus: "succeeded",
+        statusCommentId: 123,
+      })
+    ).toEqual({
+      "workspace-name": "issue-1",
+      "build-status": "succeeded",
+      "status-comment-id": "123",
+    });
+  });
+
+  it("adds the first link of each kind of app", () => {
+    const links = [
+      { agent: "main", kind: "terminal" as const, name: "Terminal", url: "t1" },
+      { agent: "gpu", kind: "terminal" as const, name: "Terminal", url: "t2" },
+      { agent: "main", kind: "ai-agent" as const, name: "Claude", url: "ai" },
+    ];
+    expect(resultOutputs({ appLinks: links })).toEqual({
+      "app-links": JSON.stringify(links),
+      "terminal-url": "t1",
+      "ai-agent-url": "ai",
+    });
+  });
+});
+
+describe("renderJobSummary", () => {
+  it("renders a successful run", () => {
+    expect(
+      renderJobSummary({
+        workspaceName: "issue-1",
+        workspaceUrl: "https://coder.example.com/hugo/issue-1",
+        coderUsername: "hugo",
+        buildStatus: "succeeded",
+      })
+    ).toEqual(
+      "### ✅ Coder workspace started\n\n|  |  |\n| --- | --- |\n| Workspace | [issue-1](https://coder.example.com/hugo/issue-1) |\n| Owner | hugo |\n| Build status | succeeded |"
+    );
+  });
+
+  it("renders a dry run", () => {
+    expect(
+      renderJobSummary({
+        plan: {
+          owner: "hugo",
+          workspaceName: "issue-1",
+          action: "Delete the workspace",
+          parameters: {},
+        },
+      })
+    ).toEqual(
+      "### 📝 Dry run: no workspace was changed\n\n|  |  |\n| --- | --- |\n| Action | Delete the workspace |\n| Owner | hugo |\n| Workspace | issue-1 |"
+    );
+  });
+
+  it("renders a failed run", () => {
+    expect(renderJobSummary({ error: "Template not found" })).toEqual(
+      "### ❌ Failed to start the Coder workspace\n\nTemplate not found"
+    );
+  });
+
+  it("describes teardowns", () => {
+    expect(
+      renderJobSummary({
+        mode: "stop",
+        action: "stopped",
+        workspaceName: "issue-1",
+      })
+    ).toEqual(
+      "### 🛑 Coder workspace stopped\n\n|  |  |\n| --- | --- |\n| Workspace | issue-1 |"
+    );
+    expect(renderJobSummary({ mode: "delete", action: "not-found" })).toEqual(
+      "### ℹ️ There is no Coder workspace to tear down"
+    );
+    expect(
+      renderJobSummary({ mode: "delete", error: "Workspace build failed" })
+    ).toEqual(
+      "### ❌ Failed to delete the Coder workspace\n\nWorkspace build failed"
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import type { ActionInput, WorkspaceAction } from "./action";
+import type { AppLink, AppLinkKind } from "./apps";
+import type { ProvisionerJobStatus } from "./coder";
+import { renderPlan, type WorkspacePlan } from "./plan";
+
+/**
+ * Everything the action learned about the workspace. Fields are filled in as
+ * the action progresses, so a failed run reports whatever it got to.
+ */
+export interface ActionResult {
+  mode?: ActionInput["mode"];
+  /** What the action did to the workspace, set once it succeeded */
+  action?: WorkspaceAction;
+  workspaceId?: string;
+  workspaceName?: string;
+  workspaceUrl?: string;
+  coderUsername?: string;
+  templateVersionId?: string;
+  buildStatus?: ProvisionerJobStatus;
+  statusCommentId?: number;
+  /** Set once the workspace agents are ready, if `wait-for-agents` is on */
+  appLinks?: AppLink[];
+  /** Set instead of creating the workspace in dry-run mode */
+  plan?: WorkspacePlan;
+  error?: string;
+}
+
+/**
+ * Formats entries for the files GitHub Actions reads outputs and environment
+ * variables from. Uses the delimiter syntax, since values may span lines.
+ */
+export const formatGitHubFileEntries = (
+  entries: Record<string, string>
+): string =>
+  Object.entries(entries)
+    .map(([name, value]) => {
+      const delimiter = `ghadelimiter_${crypto.randomUUID()}`;
+      return `${name}<<${delimiter}\n${value}\n${delimiter}\n`;
+    })
+    .join("");
+
+const firstAppUrl = (
+  result: ActionResult,
+  kind: AppLinkKind
+): string | undefined =>
+  result.appLinks?.find((link) => link.kind === kind)?.url;
+
+/**
+ * Returns the step outputs for a result, leaving out unknown values
+ */
+export const resultOutputs = (result: ActionResult): Record<string, string> => {
+  const outputs: Record<string, string | number | undefined> = {
+    "workspace-id": result.workspaceId,
+    "workspace-name": result.workspaceName,
+    "workspace-url": result.workspaceUrl,
+    "coder-username": result.coderUsername,
+    "template-version-id": result.templateVersionId,
+    "build-status": result.buildStatus,
+    "status-comment-id": result.statusCommentId,
+    "app-links": result.appLinks && JSON.stringify(result.appLinks),
+    "vscode-desktop-url": firstAppUrl(result, "vscode-desktop"),
+    "vscode-web-url": firstAppUrl(result, "vscode-web"),
+    "terminal-url": firstAppUrl(result, "terminal"),
+    "ai-agent-url": firstAppUrl(result, "ai-agent"),
+  };
+  return Object.fromEntries(
+    Object.entries(outputs)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [name, String(value)])
+  );
+};
+
+const summaryTitles: Record<WorkspaceAction, string> = {
+  created: "✅ Coder workspace started",
+  started: "✅ Coder workspace started",
+  "already-running": "✅ Coder workspace is already running",
+  updated: "✅ Coder workspace updated",
+  recreated: "✅ Coder workspace recreated",
+  "build-joined": "✅ Coder workspace started",
+  stopped: "🛑 Coder workspace stopped",
+  "stop-queued": "🛑 Coder workspace is stopping",
+  "already-stopped": "🛑 Coder workspace is already stopped",
+  deleted: "🗑️ Coder workspace deleted",
+  "delete-queued": "🗑️ Coder workspace is being deleted",
+  "not-found": "ℹ️ There is no Coder workspace to tear down",
+  planned: "📝 Dry run: no workspace was changed",
+};
+
+/**
+ * Renders the Markdown job summary for a result
+ */
+export const renderJobSummary = (result: ActionResult): string => {
+  if (result.plan && !result.error) {
+    return `### 📝 Dry run: no workspace was changed
+
+${renderPlan(result.plan)}`;
+  }
+  const rows: [string, string | undefined][] = [
+    [
+      "Workspace",
+      result.workspaceName && result.workspaceUrl
+        ? `[${result.workspaceName}](${result.workspaceUrl})`
+        : result.workspaceName,
+    ],
+    ["Owner", result.coderUsername],
+    ["Workspace ID", result.workspaceId],
+    ["Template version ID", result.templateVersionId],
+    ["Build status", result.buildStatus],
+  ];
+  const table = rows
+    .filter((row): row is [string, string] => row[1] !== undefined)
+    .map(([name, value]) => `| ${name} | ${value} |`)
+    .join("\n");
+  const title = result.error
+    ? `### ❌ Failed to ${result.mode ?? "start"} the Coder workspace`
+    : `### ${summaryTitles[result.action ?? "created"]}`;
+  return [
+    title,
+    ...(result.error ? [result.error] : []),
+    ...(table ? [`|  |  |\n| --- | --- |\n${table}`] : []),
+  ].join("\n\n");
+};
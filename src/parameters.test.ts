@@ -0,0 +1,183 @@
+import { describe, expect, it } from "bun:test";
+import type { TemplateVersionParameter } from "./coder";
+import {
+  closestNames,
+  encodeParameters,
+  validateParameters,
+} from "./parameters";
+
+const newDefinition = (
+  definition: Partial<TemplateVersionParameter> & { name: string }
+): TemplateVersionParameter => ({
+  type: "string",
+  mutable: true,
+  default_value: "",
+  required: false,
+  options: [],
+  ...definition,
+});
+
+describe("closestNames", () => {
+  it("suggests close names, closest first", () => {
+    expect(closestNames("regon", ["region", "image", "regions"])).toEqual([
+      "region",
+      "regions",
+    ]);
+    expect(closestNames("CPU", ["cpu", "gpu"])).toEqual(["cpu", "gpu"]);
+    expect(closestNames("something", ["region", "image"])).toEqual([]);
+  });
+});
+
+describe("validateParameters", () => {
+  it("accepts valid parameters", () => {
+    const definitions = [
+      newDefinition({ name: "region", required: true }),
+      newDefinition({ name: "cpu", type: "number" }),
+    ];
+    expect(validateParameters(definitions, { region: "eu", cpu: "4" })).toEqual(
+      []
+    );
+  });
+
+  it("reports unknown and missing parameters", () => {
+    const definitions = [
+      newDefinition({ name: "region", required: true }),
+      newDefinition({ name: "image" }),
+    ];
+    expect(validateParameters(definitions, { regin: "eu" })).toEqual([
+      'Unknown parameter "regin". Did you mean "region"?',
+      'Missing required parameter "region"',
+    ]);
+  });
+
+  it("redacts the values of sensitive parameters", () => {
+    const definitions = [
+      newDefinition({ name: "ssh_key", validation_regex: "^ssh-" }),
+      newDefinition({ name: "api_token", mutable: false }),
+      newDefinition({ name: "region", options: [] }),
+    ];
+    expect(
+      validateParameters(
+        definitions,
+        { ssh_key: "hunter2", api_token: "new", region: "eu" },
+        { api_token: "old", region: "us" },
+        ["ssh_key"]
+      )
+    ).toEqual([
+      'Parameter "ssh_key" must match the regular expression ^ssh- (got "******")',
+      'Parameter "api_token" is immutable and cannot be changed',
+    ]);
+  });
+
+  it("checks types", () => {
+    const definitions = [
+      newDefinition({ name: "cpu", type: "number" }),
+      newDefinition({ name: "gpu", type: "bool" }),
+      newDefinition({ name: "repos", type: "list(string)" }),
+    ];
+    expect(
+      validateParameters(definitions, {
+        cpu: "four",
+        gpu: "yes",
+        repos: "coder/coder",
+      })
+    ).toEqual([
+      'Parameter "cpu" must be a number (got "four")',
+      'Parameter "gpu" must be "true" or "false" (got "yes")',
+      'Parameter "repos" must be a JSON-encoded list of strings (got "coder/coder")',
+    ]);
+    expect(
+      validateParameters(definitions, {
+        cpu: "4",
+        gpu: "false",
+        repos: '["coder/coder"]',
+      })
+    ).toEqual([]);
+  });
+
+  it("checks options, regular expressions and ranges", () => {
+    const definitions = [
+      newDefinition({
+        name: "region",
+        options: [
+          { name: "US", value: "us" },
+          { name: "EU", value: "eu" },
+        ],
+      }),
+      newDefinition({
+        name: "branch",
+        validation_regex: "^[a-z-]+$",
+        validation_error: "Invalid branch {value}",
+      }),
+      newDefinition({
+        name: "cpu",
+        type: "number",
+        validation_min: 1,
+        validation_max: 8,
+      }),
+    ];
+    expect(
+      validateParameters(definitions, {
+        region: "asia",
+        branch: "Main",
+        cpu: "16",
+      })
+    ).toEqual([
+      'Parameter "region" must be one of: us, eu (got "asia")',
+      "Invalid branch Main",
+      'Parameter "cpu" must be at most 8 (got 16)',
+    ]);
+  });
+
+  it("rejects changes to immutable parameters of existing workspaces", () => {
+    const definitions = [
+      newDefinition({ name: "disk", mutable: false, required: true }),
+      newDefinition({ name: "region", required: true }),
+    ];
+    expect(
+      validateParameters(definitions, { disk: "100" }, { disk: "50" })
+    ).toEqual([
+      'Parameter "disk" is immutable and cannot be changed from "50" to "100"',
+    ]);
+    expect(validateParameters(definitions, { disk: "100" })).toEqual([
+      'Missing required parameter "region"',
+    ]);
+  });
+});
+
+describe("encodeParameters", () => {
+  it("converts values to the string form of their declared types", () => {
+    const definitions = [
+      newDefinition({ name: "cpu", type: "number" }),
+      newDefinition({ name: "gpu", type: "bool" }),
+      newDefinition({ name: "repos", type: "list(string)" }),
+      newDefinition({ name: "region" }),
+    ];
+    expect(
+      encodeParameters(definitions, {
+        cpu: 4,
+        gpu: false,
+        repos: ["coder/coder", 42],
+        region: "eu",
+      })
+    ).toEqual({
+      values: {
+        cpu: "4",
+        gpu: "false",
+        repos: '["coder/coder","42"]',
+        region: "eu",
+      },
+      problems: [],
+    });
+  });
+
+  it("rejects lists for parameters that aren't lists", () => {
+    const definitions = [newDefinition({ name: "region" })];
+    expect(encodeParameters(definitions, { region: ["us", "eu"] })).toEqual({
+      values: {},
+      problems: [
+        'Parameter "region" has type string and can\'t be set to a list',
+      ],
+    });
+  });
+});
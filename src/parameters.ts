@@ -0,0 +1,261 @@
+import type { TemplateVersionParameter } from "./coder";
+import { isSensitiveParameter, REDACTED } from "./plan";
+
+export type ParameterScalar = string | number | boolean;
+
+/**
+ * A parameter value as written in the `parameters` input
+ */
+export type ParameterValue = ParameterScalar | ParameterScalar[];
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (current[j - 1] ?? 0) + 1,
+        (previous[j] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+};
+
+/**
+ * Returns up to `limit` candidates that are close to `name`, closest first.
+ * Comparison is case-insensitive, since parameter names often only differ
+ * from a typo by case.
+ */
+export const closestNames = (
+  name: string,
+  candidates: string[],
+  limit = 3
+): string[] => {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      distance: levenshtein(name.toLowerCase(), candidate.toLowerCase()),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+};
+
+const formatValidationError = (
+  definition: TemplateVersionParameter,
+  value: string,
+  fallback: string
+): string => {
+  if (!definition.validation_error) {
+    return fallback;
+  }
+  return definition.validation_error
+    .replaceAll("{min}", String(definition.validation_min ?? ""))
+    .replaceAll("{max}", String(definition.validation_max ?? ""))
+    .replaceAll("{value}", value);
+};
+
+const parseList = (value: string): string[] | undefined => {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (
+      Array.isArray(parsed) &&
+      parsed.every((item) => typeof item === "string")
+    ) {
+      return parsed;
+    }
+  } catch {}
+  return undefined;
+};
+
+/**
+ * Checks a single value against its parameter definition. Returns a
+ * description of every problem found. Values of sensitive parameters are
+ * redacted in the descriptions.
+ */
+const validateValue = (
+  definition: TemplateVersionParameter,
+  value: string,
+  sensitive: boolean
+): string[] => {
+  const name = definition.name;
+  const show = (v: string): string => (sensitive ? REDACTED : v);
+  const optionValues = definition.options.map((option) => option.value);
+  const checkOption = (v: string): string[] =>
+    optionValues.length > 0 && !optionValues.includes(v)
+      ? [
+          `Parameter "${name}" must be one of: ${optionValues.join(
+            ", "
+          )} (got "${show(v)}")`,
+        ]
+      : [];
+
+  switch (definition.type) {
+    case "number": {
+      const number = Number(value);
+      if (value.trim() === "" || Number.isNaN(number)) {
+        return [`Parameter "${name}" must be a number (got "${show(value)}")`];
+      }
+      const problems = checkOption(value);
+      const { validation_min: min, validation_max: max } = definition;
+      if (min !== undefined && min !== null && number < min) {
+        problems.push(
+          formatValidationError(
+            definition,
+            show(value),
+            `Parameter "${name}" must be at least ${min} (got ${show(value)})`
+          )
+        );
+      }
+      if (max !== undefined && max !== null && number > max) {
+        problems.push(
+          formatValidationError(
+            definition,
+            show(value),
+            `Parameter "${name}" must be at most ${max} (got ${show(value)})`
+          )
+        );
+      }
+      return problems;
+    }
+    case "bool":
+      if (value !== "true" && value !== "false") {
+        return [
+          `Parameter "${name}" must be "true" or "false" (got "${show(
+            value
+          )}")`,
+        ];
+      }
+      return [];
+    case "list(string)": {
+      const items = parseList(value);
+      if (!items) {
+        return [
+          `Parameter "${name}" must be a JSON-encoded list of strings (got "${show(
+            value
+          )}")`,
+        ];
+      }
+      return items.flatMap(checkOption);
+    }
+    case "string": {
+      const problems = checkOption(value);
+      if (definition.validation_regex) {
+        let regex: RegExp | undefined;
+        try {
+          regex = new RegExp(definition.validation_regex);
+        } catch {
+          // Coder uses Go regular expressions, which JavaScript can't always
+          // parse. Leave those for Coder to check.
+        }
+        if (regex && !regex.test(value)) {
+          problems.push(
+            formatValidationError(
+              definition,
+              show(value),
+              `Parameter "${name}" must match the regular expression ${
+                definition.validation_regex
+              } (got "${show(value)}")`
+            )
+          );
+        }
+      }
+      return problems;
+    }
+  }
+};
+
+/**
+ * Checks workspace parameters against the rich parameter definitions of a
+ * template version. If `existingValues` is set, the parameters are for a
+ * build of an existing workspace, so immutable parameters must keep their
+ * values. Returns a description of every problem found, without the values
+ * of parameters that are listed in `sensitiveNames` or look sensitive.
+ */
+export const validateParameters = (
+  definitions: TemplateVersionParameter[],
+  values: Record<string, string>,
+  existingValues?: Record<string, string>,
+  sensitiveNames: string[] = []
+): string[] => {
+  const problems: string[] = [];
+  const definitionsByName = new Map(definitions.map((d) => [d.name, d]));
+
+  for (const name of Object.keys(values)) {
+    if (definitionsByName.has(name)) {
+      continue;
+    }
+    const suggestions = closestNames(name, [...definitionsByName.keys()]);
+    problems.push(
+      `Unknown parameter "${name}".${
+        suggestions.length > 0
+          ? ` Did you mean ${suggestions.map((s) => `"${s}"`).join(" or ")}?`
+          : ""
+      }`
+    );
+  }
+
+  for (const definition of definitions) {
+    const value = values[definition.name];
+    if (value === undefined) {
+      if (definition.required && existingValues === undefined) {
+        problems.push(`Missing required parameter "${definition.name}"`);
+      }
+      continue;
+    }
+    const sensitive = isSensitiveParameter(definition.name, sensitiveNames);
+    problems.push(...validateValue(definition, value, sensitive));
+
+    const existingValue = existingValues?.[definition.name];
+    if (
+      !definition.mutable &&
+      !definition.ephemeral &&
+      existingValue !== undefined &&
+      existingValue !== value
+    ) {
+      problems.push(
+        sensitive
+          ? `Parameter "${definition.name}" is immutable and cannot be changed`
+          : `Parameter "${definition.name}" is immutable and cannot be changed from "${existingValue}" to "${value}"`
+      );
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Converts parameter values into the string form Coder expects for their
+ * declared types. Lists become JSON-encoded arrays of strings; other values
+ * are stringified and left for validateParameters to check. Values of
+ * unknown parameters are converted as well, so they can be reported later.
+ */
+export const encodeParameters = (
+  definitions: TemplateVersionParameter[],
+  values: Record<string, ParameterValue>
+): { values: Record<string, string>; problems: string[] } => {
+  const definitionsByName = new Map(definitions.map((d) => [d.name, d]));
+  const encoded: Record<string, string> = {};
+  const problems: string[] = [];
+  for (const [name, value] of Object.entries(values)) {
+    const type = definitionsByName.get(name)?.type;
+    if (!Array.isArray(value)) {
+      encoded[name] = String(value);
+      continue;
+    }
+    if (type !== undefined && type !== "list(string)") {
+      problems.push(
+        `Parameter "${name}" has type ${type} and can't be set to a list`
+      );
+      continue;
+    }
+    encoded[name] = JSON.stringify(value.map(String));
+  }
+  return { values: encoded, problems };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+import { fillPlaceholders, findPlaceholders } from "./placeholders";
+
+describe("findPlaceholders", () => {
+  it("finds placeholders in strings and lists", () => {
+    expect(
+      findPlaceholders({
+        prompt: "Fix {{ issue.title }} in {{repo.full_name}}",
+        repos: ["{{ repo.full_name }}", "{{ unknown.thing }}"],
+        cpu: 4,
+      })
+    ).toEqual(["issue.title", "repo.full_name", "unknown.thing"]);
+  });
+});
+
+describe("fillPlaceholders", () => {
+  it("inserts values without interpreting them", () => {
+    expect(
+      fillPlaceholders(
+        {
+          prompt: "Fix {{ issue.title }}:\n{{ issue.body }}",
+          repos: ["{{ repo.full_name }}"],
+          gpu: false,
+        },
+        {
+          "issue.title": 'Crash on "save"',
+          "issue.body": "key: value\n- {{ issue.title }}",
+          "repo.full_name": "coder/coder",
+        },
+        100
+      )
+    ).toEqual({
+      prompt: 'Fix Crash on "save":\nkey: value\n- {{ issue.title }}',
+      repos: ["coder/coder"],
+      gpu: false,
+    });
+  });
+
+  it("truncates long values", () => {
+    expect(
+      fillPlaceholders(
+        { prompt: "{{ issue.body }}" },
+        { "issue.body": "a".repeat(100) },
+        20
+      )
+    ).toEqual({ prompt: "aaaaaaa… (truncated)" });
+  });
+});
@@ -0,0 +1,87 @@
+import type { ParameterScalar, ParameterValue } from "./parameters";
+
+/**
+ * Placeholders that can be used in parameter values, e.g. `{{ issue.title }}`
+ */
+export const PLACEHOLDERS = [
+  "issue.number",
+  "issue.title",
+  "issue.body",
+  "issue.url",
+  "comment.body",
+  "pull_request.head_repo_clone_url",
+  "pull_request.head_repo_full_name",
+  "pull_request.head_ref",
+  "pull_request.head_sha",
+  "pull_request.base_ref",
+  "repo.full_name",
+  "actor.login",
+] as const;
+
+export type Placeholder = (typeof PLACEHOLDERS)[number];
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const TRUNCATION_SUFFIX = "… (truncated)";
+
+const stringValues = (parameters: Record<string, ParameterValue>): string[] =>
+  Object.values(parameters)
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is string => typeof value === "string");
+
+/**
+ * Returns the names of all placeholders used in the parameter values,
+ * including unknown ones
+ */
+export const findPlaceholders = (
+  parameters: Record<string, ParameterValue>
+): string[] => {
+  const names = new Set<string>();
+  for (const value of stringValues(parameters)) {
+    for (const match of value.matchAll(PLACEHOLDER_REGEX)) {
+      names.add(match[1] ?? "");
+    }
+  }
+  return [...names];
+};
+
+export const isPlaceholder = (name: string): name is Placeholder =>
+  (PLACEHOLDERS as readonly string[]).includes(name);
+
+/**
+ * Replaces the placeholders in the parameter values. Values longer than
+ * `maxLength` are truncated before they are inserted. Since this runs after
+ * the YAML has been parsed, inserted values never need escaping.
+ */
+export const fillPlaceholders = (
+  parameters: Record<string, ParameterValue>,
+  values: Partial<Record<Placeholder, string>>,
+  maxLength: number
+): Record<string, ParameterValue> => {
+  const fill = (value: ParameterScalar): ParameterScalar => {
+    if (typeof value !== "string") {
+      return value;
+    }
+    return value.replaceAll(PLACEHOLDER_REGEX, (match, name: string) => {
+      const replacement = isPlaceholder(name) ? values[name] : undefined;
+      if (replacement === undefined) {
+        return match;
+      }
+      if (replacement.length <= maxLength) {
+        return replacement;
+      }
+      return (
+        replacement.slice(
+          0,
+          Math.max(maxLength - TRUNCATION_SUFFIX.length, 0)
+        ) + TRUNCATION_SUFFIX
+      );
+    });
+  };
+  return Object.fromEntries(
+    Object.entries(parameters).map(([name, value]) => [
+      name,
+      Array.isArray(value) ? value.map(fill) : fill(value),
+    ])
+  );
+};
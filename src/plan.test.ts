@@ -0,0 +1,39 @@
+import { describe, expect, it } from "bun:test";
+import { redactParameters, renderPlan } from "./plan";
+
+describe("redactParameters", () => {
+  it("redacts listed parameters and parameters with secret-like names", () => {
+    expect(
+      redactParameters(
+        {
+          region: "eu",
+          GITHUB_TOKEN: "ghp_123",
+          api_key: "abc",
+          dotfiles_uri: "https://github.com/hugo/dotfiles",
+        },
+        ["dotfiles_uri"]
+      )
+    ).toEqual({
+      region: "eu",
+      GITHUB_TOKEN: "******",
+      api_key: "******",
+      dotfiles_uri: "******",
+    });
+  });
+});
+
+describe("renderPlan", () => {
+  it("renders the plan and the parameters as tables", () => {
+    expect(
+      renderPlan({
+        owner: "hugo",
+        workspaceName: "issue-1",
+        action: "Create a new workspace",
+        templateName: "ubuntu",
+        parameters: { region: "eu", prompt: "a | b\nc" },
+      })
+    ).toEqual(
+      "|  |  |\n| --- | --- |\n| Action | Create a new workspace |\n| Owner | hugo |\n| Workspace | issue-1 |\n| Template | ubuntu |\n\n| Parameter | Value |\n| --- | --- |\n| region | eu |\n| prompt | a \\| b<br>c |"
+    );
+  });
+});
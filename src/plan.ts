@@ -0,0 +1,75 @@
+/**
+ * What the action would do in dry-run mode
+ */
+export interface WorkspacePlan {
+  owner: string;
+  workspaceName: string;
+  action: string;
+  templateName?: string;
+  templateVersion?: string;
+  preset?: string;
+  lifecycle?: string;
+  /** Final parameter values, with sensitive values already redacted */
+  parameters: Record<string, string>;
+}
+
+export const REDACTED = "******";
+
+const SENSITIVE_NAME_REGEX =
+  /password|passwd|secret|token|api[_-]?key|private[_-]?key|credential/i;
+
+/**
+ * Returns true if the parameter is listed in `sensitiveNames` or its name
+ * suggests that it holds a secret
+ */
+export const isSensitiveParameter = (
+  name: string,
+  sensitiveNames: string[]
+): boolean => sensitiveNames.includes(name) || SENSITIVE_NAME_REGEX.test(name);
+
+export const redactParameters = (
+  parameters: Record<string, string>,
+  sensitiveNames: string[]
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(parameters).map(([name, value]) => [
+      name,
+      isSensitiveParameter(name, sensitiveNames) ? REDACTED : value,
+    ])
+  );
+
+const escapeTableCell = (value: string): string =>
+  value.replaceAll("|", "\\|").replaceAll("\n", "<br>");
+
+/**
+ * Renders the plan as Markdown tables
+ */
+export const renderPlan = (plan: WorkspacePlan): string => {
+  const rows: [string, string | undefined][] = [
+    ["Action", plan.action],
+    ["Owner", plan.owner],
+    ["Workspace", plan.workspaceName],
+    ["Template", plan.templateName],
+    ["Template version", plan.templateVersion],
+    ["Preset", plan.preset],
+    ["Lifecycle", plan.lifecycle],
+  ];
+  const table = rows
+    .filter((row): row is [string, string] => row[1] !== undefined)
+    .map(([name, value]) => `| ${name} | ${escapeTableCell(value)} |`)
+    .join("\n");
+  const parameters = Object.entries(plan.parameters);
+  return [
+    `|  |  |\n| --- | --- |\n${table}`,
+    ...(parameters.length > 0
+      ? [
+          `| Parameter | Value |\n| --- | --- |\n${parameters
+            .map(
+              ([name, value]) =>
+                `| ${escapeTableCell(name)} | ${escapeTableCell(value)} |`
+            )
+            .join("\n")}`,
+        ]
+      : []),
+  ].join("\n\n");
+};
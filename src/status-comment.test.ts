@@ -0,0 +1,132 @@
+import { describe, expect, it } from "bun:test";
+import { Octokit } from "@octokit/rest";
+import {
+  githubCommentApi,
+  replaceSection,
+  StatusComment,
+} from "./status-comment";
+
+const section = (text: string) =>
+  `<!-- coder-workspace-status -->\n${text}\n<!-- /coder-workspace-status -->`;
+
+describe("replaceSection", () => {
+  it("appends the section to text without one", () => {
+    expect(replaceSection("", "🔄 Starting")).toBe(section("🔄 Starting"));
+    expect(replaceSection("/coder start", "🔄 Starting")).toBe(
+      `/coder start\n\n${section("🔄 Starting")}`
+    );
+  });
+
+  it("replaces only the section", () => {
+    expect(
+      replaceSection(
+        `Before\n\n${section("🔄 Starting")}\n\nAfter`,
+        "✅ Started"
+      )
+    ).toBe(`Before\n\n${section("✅ Started")}\n\nAfter`);
+  });
+});
+
+describe("StatusComment", () => {
+  it("keeps the text of an attached comment and skips unchanged updates", async () => {
+    const updates: string[] = [];
+    const comment = new StatusComment({
+      createComment: async () => 1,
+      updateComment: async (_commentId, body) => {
+        updates.push(body);
+      },
+      getCommentBody: async () => "Please start a workspace",
+      findComment: async () => undefined,
+    });
+
+    await comment.updateIfCreated("ignored");
+    await comment.attach(7);
+    await comment.update("🔄 Starting");
+    await comment.update("🔄 Starting");
+    await comment.update("✅ Started");
+    expect(updates).toEqual([
+      `Please start a workspace\n\n${section("🔄 Starting")}`,
+      `Please start a workspace\n\n${section("✅ Started")}`,
+    ]);
+    expect(comment.id).toBe(7);
+  });
+
+  it("reuses the comment of an earlier run for the same workspace", async () => {
+    const searched: string[] = [];
+    const created: string[] = [];
+    const updates: string[] = [];
+    const comment = new StatusComment({
+      createComment: async (body) => {
+        created.push(body);
+        return 1;
+      },
+      updateComment: async (_commentId, body) => {
+        updates.push(body);
+      },
+      getCommentBody: async () =>
+        section("<!-- coder-workspace: hugo/issue-42 -->\n✅ Started"),
+      findComment: async (text) => {
+        searched.push(text);
+        return text.includes("hugo/issue-42") ? 7 : undefined;
+      },
+    });
+
+    expect(await comment.reuseOrCreate("🔄 Starting", "hugo/issue-42")).toBe(
+      true
+    );
+    expect(searched).toEqual(["<!-- coder-workspace: hugo/issue-42 -->"]);
+    expect(created).toEqual([]);
+    expect(updates).toEqual([
+      section("<!-- coder-workspace: hugo/issue-42 -->\n🔄 Starting"),
+    ]);
+    expect(comment.id).toBe(7);
+
+    const other = new StatusComment({
+      createComment: async (body) => {
+        created.push(body);
+        return 8;
+      },
+      updateComment: async () => {},
+      getCommentBody: async () => "",
+      findComment: async () => undefined,
+    });
+    expect(await other.reuseOrCreate("🔄 Starting", "hugo/issue-43")).toBe(
+      false
+    );
+    expect(created).toEqual([
+      section("<!-- coder-workspace: hugo/issue-43 -->\n🔄 Starting"),
+    ]);
+  });
+});
+
+describe("githubCommentApi", () => {
+  it("only finds comments posted with the same token", async () => {
+    const octokit = new Octokit();
+    const marker = "<!-- coder-workspace: hugo/workspace-name -->";
+    octokit.paginate = (async () => [
+      { id: 1, user: { login: "coder-bot", type: "User" }, body: marker },
+      { id: 2, user: { login: "mallory", type: "User" }, body: marker },
+      {
+        id: 3,
+        user: { login: "github-actions[bot]", type: "Bot" },
+        body: marker,
+      },
+    ]) as any;
+    const api = githubCommentApi(octokit, {
+      owner: "coder",
+      repo: "coder",
+      issueNumber: 42,
+    });
+
+    octokit.rest.users.getAuthenticated = (async () => ({
+      data: { login: "coder-bot" },
+    })) as any;
+    expect(await api.findComment(marker)).toBe(1);
+
+    // Installation tokens can't look up their user
+    octokit.rest.users.getAuthenticated = (async () => {
+      throw new Error("Resource not accessible by integration");
+    }) as any;
+    expect(await api.findComment(marker)).toBe(3);
+  });
+});
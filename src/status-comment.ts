@@ -0,0 +1,191 @@
+import assert from "assert";
+import type { Octokit } from "@octokit/rest";
+
+/**
+ * The GitHub calls the status comment needs, bound to a single issue
+ */
+export interface IssueCommentApi {
+  createComment(body: string): Promise<number>;
+  updateComment(commentId: number, body: string): Promise<void>;
+  getCommentBody(commentId: number): Promise<string>;
+  /** Returns the newest comment whose body contains `text` */
+  findComment(text: string): Promise<number | undefined>;
+}
+
+/**
+ * Posts the status comment as an issue comment with the given GitHub
+ * client. `findComment` only returns comments that were posted with the
+ * same GitHub token, since anyone can post a comment that contains the
+ * marker. Installation tokens, such as the workflow's `GITHUB_TOKEN`, can't
+ * look up their own user, so for them any comment posted by a GitHub App
+ * counts.
+ */
+export const githubCommentApi = (
+  octokit: Octokit,
+  issue: { owner: string; repo: string; issueNumber: number }
+): IssueCommentApi => ({
+  createComment: async (body) => {
+    const response = await octokit.rest.issues.createComment({
+      owner: issue.owner,
+      repo: issue.repo,
+      issue_number: issue.issueNumber,
+      body,
+    });
+    return response.data.id;
+  },
+  updateComment: async (commentId, body) => {
+    await octokit.rest.issues.updateComment({
+      owner: issue.owner,
+      repo: issue.repo,
+      comment_id: commentId,
+      body,
+    });
+  },
+  getCommentBody: async (commentId) => {
+    const response = await octokit.rest.issues.getComment({
+      owner: issue.owner,
+      repo: issue.repo,
+      comment_id: commentId,
+    });
+    return response.data.body ?? "";
+  },
+  findComment: async (text) => {
+    const login = await octokit.rest.users
+      .getAuthenticated()
+      .then((response) => response.data.login)
+      .catch(() => undefined);
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+      owner: issue.owner,
+      repo: issue.repo,
+      issue_number: issue.issueNumber,
+      per_page: 100,
+    });
+    return comments.findLast(
+      (comment) =>
+        (login !== undefined
+          ? comment.user?.login === login
+          : comment.user?.type === "Bot") && comment.body?.includes(text)
+    )?.id;
+  },
+});
+
+const SECTION_START = "<!-- coder-workspace-status -->";
+const SECTION_END = "<!-- /coder-workspace-status -->";
+
+/**
+ * Hidden marker that identifies the workspace a status comment is about, as
+ * `owner/name`, so later runs for the same workspace can find the comment
+ */
+const workspaceMarker = (workspace: string): string =>
+  `<!-- coder-workspace: ${workspace} -->`;
+
+const wrapSection = (section: string): string =>
+  `${SECTION_START}\n${section}\n${SECTION_END}`;
+
+/**
+ * Replaces the action's section of a comment body, or appends it if the
+ * body doesn't have one yet. Text outside the section is kept.
+ */
+export const replaceSection = (body: string, section: string): string => {
+  const start = body.indexOf(SECTION_START);
+  const end = body.indexOf(SECTION_END, start);
+  if (start !== -1 && end !== -1) {
+    return (
+      body.slice(0, start) +
+      wrapSection(section) +
+      body.slice(end + SECTION_END.length)
+    );
+  }
+  if (body.trim() === "") {
+    return wrapSection(section);
+  }
+  return `${body}\n\n${wrapSection(section)}`;
+};
+
+/**
+ * The comment on the GitHub issue that reports the progress of the action.
+ * All updates go through this class, so it always knows the current body.
+ * The action only owns a marked section of the comment, so text that was
+ * in the comment before the action attached to it is kept.
+ */
+export class StatusComment {
+  private commentId: number | undefined;
+  private currentBody = "";
+  private marker: string | undefined;
+
+  constructor(private readonly api: IssueCommentApi) {}
+
+  get id(): number | undefined {
+    return this.commentId;
+  }
+
+  get body(): string {
+    return this.currentBody;
+  }
+
+  /**
+   * Marks the comment as the status comment of the workspace, given as
+   * `owner/name`, from now on
+   */
+  identify(workspace: string): void {
+    this.marker = workspaceMarker(workspace);
+  }
+
+  /**
+   * Posts a new comment and uses it as the status comment
+   */
+  async create(section: string): Promise<void> {
+    const body = wrapSection(this.withMarker(section));
+    this.commentId = await this.api.createComment(body);
+    this.currentBody = body;
+  }
+
+  /**
+   * Uses the status comment of an earlier run for the same workspace, or
+   * posts a new one if there is none. Returns true if a comment was reused.
+   */
+  async reuseOrCreate(section: string, workspace: string): Promise<boolean> {
+    this.identify(workspace);
+    const existing = await this.api.findComment(workspaceMarker(workspace));
+    if (existing === undefined) {
+      await this.create(section);
+      return false;
+    }
+    await this.attach(existing);
+    await this.update(section);
+    return true;
+  }
+
+  /**
+   * Uses an existing comment as the status comment
+   */
+  async attach(commentId: number): Promise<void> {
+    this.commentId = commentId;
+    this.currentBody = await this.api.getCommentBody(commentId);
+  }
+
+  async update(section: string): Promise<void> {
+    assert(this.commentId !== undefined, "Status comment was not created");
+    const body = replaceSection(this.currentBody, this.withMarker(section));
+    if (body === this.currentBody) {
+      return;
+    }
+    await this.api.updateComment(this.commentId, body);
+    this.currentBody = body;
+  }
+
+  /**
+   * Like update, but does nothing if the comment was never created, so it
+   * is safe to call from error handlers
+   */
+  async updateIfCreated(section: string): Promise<void> {
+    if (this.commentId === undefined) {
+      return;
+    }
+    await this.update(section);
+  }
+
+  private withMarker(section: string): string {
+    return this.marker ? `${this.marker}\n${section}` : section;
+  }
+}
@@ -4,3 +4,6 @@ export const unwrap = <T>(value: T | undefined | null): T => {
   }
   return value;
 };
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "bun:test";
+import {
+  findNameVariables,
+  renderWorkspaceName,
+  slugify,
+  validateWorkspaceName,
+  withNameSuffix,
+} from "./workspace-name";
+
+describe("validateWorkspaceName", () => {
+  it("accepts names that follow Coder's rules", () => {
+    expect(validateWorkspaceName("issue-123")).toBeUndefined();
+    expect(validateWorkspaceName("a".repeat(32))).toBeUndefined();
+  });
+
+  it("rejects names that break Coder's rules", () => {
+    expect(validateWorkspaceName("a".repeat(33))).toBe(
+      `Workspace name "${"a".repeat(33)}" is longer than 32 characters`
+    );
+    for (const name of ["Issue-1", "issue_1", "-issue", "issue-", "a--b", ""]) {
+      expect(validateWorkspaceName(name)).toContain("must consist of");
+    }
+  });
+});
+
+describe("slugify", () => {
+  it("keeps lowercase alphanumerics separated by single hyphens", () => {
+    expect(slugify("Fix: Crash in Café (v2)!")).toBe("fix-crash-in-cafe-v2");
+    expect(slugify("feature/add--login")).toBe("feature-add-login");
+    expect(slugify("🎉")).toBe("");
+  });
+});
+
+describe("renderWorkspaceName", () => {
+  it("fills in and slugs variables", () => {
+    expect(
+      renderWorkspaceName("{repo}-{number}-{title-slug}", {
+        repo: "Create_Workspace",
+        number: "42",
+        "title-slug": "Dark mode",
+      })
+    ).toBe("create-workspace-42-dark-mode");
+  });
+
+  it("truncates long names without leaving a trailing hyphen", () => {
+    expect(
+      renderWorkspaceName("{number}-{title-slug}", {
+        number: "42",
+        "title-slug": "Support workspaces with very long names",
+      })
+    ).toBe("42-support-workspaces-with-very");
+  });
+
+  it("cleans up around empty values", () => {
+    expect(
+      renderWorkspaceName("pr-{number}-{branch-slug}", {
+        number: "7",
+        "branch-slug": "///",
+      })
+    ).toBe("pr-7");
+  });
+});
+
+describe("findNameVariables", () => {
+  it("finds known and unknown variables", () => {
+    expect(findNameVariables("{repo}-{number}-{nope}-{repo}")).toEqual([
+      "repo",
+      "number",
+      "nope",
+    ]);
+  });
+});
+
+describe("withNameSuffix", () => {
+  it("keeps the name within the length limit", () => {
+    expect(withNameSuffix("issue-1", 2)).toBe("issue-1-2");
+    expect(withNameSuffix(`${"a".repeat(29)}-b`, 12)).toBe(
+      `${"a".repeat(29)}-12`
+    );
+  });
+});
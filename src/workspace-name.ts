@@ -0,0 +1,96 @@
+/**
+ * Coder workspace names are at most 32 characters long
+ */
+export const MAX_WORKSPACE_NAME_LENGTH = 32;
+
+const WORKSPACE_NAME_REGEX = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Variables that can be used in `workspace-name-template`, e.g. `{number}`
+ */
+export const WORKSPACE_NAME_VARIABLES = [
+  "owner",
+  "repo",
+  "number",
+  "title-slug",
+  "branch-slug",
+  "actor",
+] as const;
+
+export type WorkspaceNameVariable = (typeof WORKSPACE_NAME_VARIABLES)[number];
+
+const VARIABLE_REGEX = /\{([\w-]+)\}/g;
+
+/**
+ * Returns a problem with the name if Coder would reject it
+ */
+export const validateWorkspaceName = (name: string): string | undefined => {
+  if (name.length > MAX_WORKSPACE_NAME_LENGTH) {
+    return `Workspace name "${name}" is longer than ${MAX_WORKSPACE_NAME_LENGTH} characters`;
+  }
+  if (!WORKSPACE_NAME_REGEX.test(name)) {
+    return `Workspace name "${name}" must consist of lowercase letters, digits and single hyphens, and must not start or end with a hyphen`;
+  }
+  return undefined;
+};
+
+/**
+ * Cuts the name to the given length without leaving a trailing hyphen
+ */
+const truncate = (name: string, maxLength: number): string =>
+  name.slice(0, maxLength).replace(/-+$/, "");
+
+/**
+ * Turns arbitrary text, such as an issue title or a branch name, into
+ * lowercase alphanumerics separated by single hyphens
+ */
+export const slugify = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Returns the names of all variables used in the template, including
+ * unknown ones
+ */
+export const findNameVariables = (template: string): string[] => [
+  ...new Set([...template.matchAll(VARIABLE_REGEX)].map((m) => m[1] ?? "")),
+];
+
+export const isNameVariable = (name: string): name is WorkspaceNameVariable =>
+  (WORKSPACE_NAME_VARIABLES as readonly string[]).includes(name);
+
+/**
+ * Renders a workspace name template. Values are slugged before they are
+ * inserted, and the result is slugged again and truncated, so it follows
+ * Coder's naming rules unless it ends up empty. Callers must make sure every
+ * variable the template uses has a value.
+ */
+export const renderWorkspaceName = (
+  template: string,
+  values: Partial<Record<WorkspaceNameVariable, string>>
+): string => {
+  const rendered = template.replaceAll(
+    VARIABLE_REGEX,
+    (match, name: string) => {
+      const value = isNameVariable(name) ? values[name] : undefined;
+      return value === undefined ? match : slugify(value);
+    }
+  );
+  return truncate(slugify(rendered), MAX_WORKSPACE_NAME_LENGTH);
+};
+
+/**
+ * Appends a numeric suffix to the name, truncating the name so the result
+ * still fits, e.g. `issue-1-2`
+ */
+export const withNameSuffix = (name: string, suffix: number): string => {
+  const suffixText = `-${suffix}`;
+  return `${truncate(
+    name,
+    MAX_WORKSPACE_NAME_LENGTH - suffixText.length
+  )}${suffixText}`;
+};